@@ -1,57 +1,243 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { TooltipData, SynthesizedSpeech } from './types';
-import { translateWord, translateWordsBatch } from './services/geminiService';
-import { synthesizeSpeech } from './services/ttsService';
-import { sanitizeHtml } from './services/htmlService';
-import Tooltip from './components/Tooltip';
+import React, { useState, useEffect, useCallback, useRef, useReducer, useMemo } from 'react';
+import { TooltipData, CompoundPart, SynthesizedSpeech, WordAnalysis, ContextualTranslation, SpeechSettings, VocabularyEntry, WordStatus, LibraryDocument, LibraryDocumentSummary, GrammarExplanation, InflectionClass, InflectionTable } from './types';
+import { translateWord, translateWordsBatch, translateText, translateSentences, explainGrammar, splitCompound, getInflectionTable, getProviders, getActiveProvider, setActiveProvider, getFallbackChain } from './services/translationProvider';
+import { getCachedTranslations, getCachedWord } from './services/translationCache';
+import { collectOccurrences, getOccurrenceKey } from './services/wordOccurrences';
+import { tokenizeHtml, Token, TokenizedText } from './services/tokenizer';
+import { estimateWordTimings, findWordAtTime } from './services/speechTiming';
+import { playbackReducer, initialPlaybackState } from './services/playbackMachine';
+import { synthesizeSpeech, synthesizeWord, createSpeechUrl } from './services/ttsService';
+import { loadSpeechSettings, saveSpeechSettings, getPlaybackRate, getSpeechCacheKey, stepSpeechRate } from './services/speechSettings';
+import { getShortcutAction, isEditableTarget } from './services/keyboardShortcuts';
+import { getInflectionClass } from './services/inflectionGenerator';
+import { sanitizeHtml, deriveTitle } from './services/htmlService';
+import { getVocabulary, addVocabularyEntry, updateVocabularyEntry, deleteVocabularyEntry, getVocabularyForms, NewVocabularyEntry } from './services/vocabularyService';
+import { collectExportRows, ExportRow } from './services/vocabularyExport';
+import { getWordStatuses, setWordStatus, findWordStatus, lookupWordStatus, nextWordStatus, computeKnownRatio, normalizeLemma, WORD_STATUSES } from './services/wordStatusService';
+import { getDocumentSummaries, openDocument, addDocument, updateDocument, deleteDocument } from './services/documentLibrary';
+import { ImportedText } from './services/importService';
+import { isAbortError, RequestOptions } from './services/requestScheduler';
+import { computeTextStatistics } from './services/textStatistics';
+import { syncReviewCards, getReviewStats, loadReviewPreferences, saveReviewPreferences, ReviewPreferences, countLookupsCollectedToday, MAX_DAILY_COLLECTED_LOOKUPS, LOOKUP_TAG } from './services/reviewService';
+import WordPopover from './components/WordPopover';
 import Controls from './components/Controls';
 import Spinner from './components/Spinner';
-import RichTextDisplay from './components/RichTextDisplay';
+import RichTextDisplay, { WordActivationEvent } from './components/RichTextDisplay';
+import ProviderSelector from './components/ProviderSelector';
+import CachePanel from './components/CachePanel';
+import TranslationPanel, { PassageTranslation } from './components/TranslationPanel';
+import ParallelTextView from './components/ParallelTextView';
+import AudioExportPanel from './components/AudioExportPanel';
+import VocabularyNotebook from './components/VocabularyNotebook';
+import ReviewSession from './components/ReviewSession';
+import VocabularyExportPanel from './components/VocabularyExportPanel';
+import TextReportPanel from './components/TextReportPanel';
+import DocumentLibrary from './components/DocumentLibrary';
+import ImportPanel from './components/ImportPanel';
+import GrammarPanel, { GrammarRequest } from './components/GrammarPanel';
+import InflectionPanel, { InflectionRequest } from './components/InflectionPanel';
+import ExercisePanel from './components/ExercisePanel';
 
 const PRELOAD_AHEAD_COUNT = 2; // Preload this many sentences ahead
+const SENTENCE_BATCH_SIZE = 20; // Sentences per request in the side-by-side view
+// Tooltip texts shown while or instead of translating, never worth saving as vocabulary
+const PLACEHOLDER_TRANSLATIONS = new Set(['...', 'Error', 'Translation failed.', 'Translation not found.']);
 
 const App: React.FC = () => {
   const [htmlContent, setHtmlContent] = useState<string>('');
   const [sentencesForTTS, setSentencesForTTS] = useState<string[]>([]);
+  const [tokenizedText, setTokenizedText] = useState<TokenizedText | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
+  const [textTitle, setTextTitle] = useState<string>('');
+  // Where the text came from, shown in the library
+  const [textSource, setTextSource] = useState<string>('');
+  // The library document of the analysed text; its translations and reading position are kept up to date
+  const [documentId, setDocumentId] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<LibraryDocumentSummary[]>([]);
   
-  const [isSpeaking, setIsSpeaking] = useState<boolean>(false);
-  const [speakingSentenceId, setSpeakingSentenceId] = useState<number | null>(null);
-  const [playbackRate, setPlaybackRate] = useState<number>(1);
+  const [playback, dispatchPlayback] = useReducer(playbackReducer, initialPlaybackState);
+  const [speakingWordStart, setSpeakingWordStart] = useState<number | null>(null);
+  const [lastSentenceIndex, setLastSentenceIndex] = useState<number | null>(null);
+  // Where Play starts for a reopened document, until playback first starts
+  const [resumeSentenceIndex, setResumeSentenceIndex] = useState<number | null>(null);
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(loadSpeechSettings);
   
   const [tooltip, setTooltip] = useState<TooltipData>(null);
   const [isTranslating, setIsTranslating] = useState<boolean>(false);
   const [isBatchTranslating, setIsBatchTranslating] = useState<boolean>(false);
-  const [translations, setTranslations] = useState<Map<string, string>>(new Map());
+  // Keyed by occurrence (see getOccurrenceKey), so each sentence gets its own sense of a word
+  const [translations, setTranslations] = useState<Map<string, ContextualTranslation>>(new Map());
+  const [analyses, setAnalyses] = useState<Map<string, WordAnalysis | null>>(new Map());
+  const [sentenceTranslations, setSentenceTranslations] = useState<Map<number, string>>(new Map());
+  const [passageTranslation, setPassageTranslation] = useState<PassageTranslation | null>(null);
+  const [grammarRequest, setGrammarRequest] = useState<GrammarRequest | null>(null);
+  const [inflectionRequest, setInflectionRequest] = useState<InflectionRequest | null>(null);
+  const [textSelection, setTextSelection] = useState<{ text: string; x: number; y: number } | null>(null);
+  const [isParallelView, setIsParallelView] = useState<boolean>(false);
+  const [isTranslatingSentences, setIsTranslatingSentences] = useState<boolean>(false);
+  const [isAudioExportOpen, setIsAudioExportOpen] = useState<boolean>(false);
+  const [isReportOpen, setIsReportOpen] = useState<boolean>(false);
+  const [isExercisesOpen, setIsExercisesOpen] = useState<boolean>(false);
+  // Snapshot of the translated words when the export panel was opened, so selections stay stable
+  const [wordExportRows, setWordExportRows] = useState<ExportRow[] | null>(null);
+  const [vocabulary, setVocabulary] = useState<VocabularyEntry[]>([]);
+  // Lemmas the reader has marked; unmarked lemmas are new
+  const [wordStatuses, setWordStatuses] = useState<Map<string, WordStatus>>(new Map());
+  const [reviewPreferences, setReviewPreferences] = useState<ReviewPreferences>(loadReviewPreferences);
+  const [dueCount, setDueCount] = useState<number>(0);
+  // Full-page views shown instead of the input or analysis view
+  const [activeView, setActiveView] = useState<'notebook' | 'review' | 'library' | null>(null);
+  const [activeProviderId, setActiveProviderId] = useState<string>(() => getActiveProvider().id);
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
-  const isCancelledRef = useRef(false);
-  const audioCacheRef = useRef<Map<number, SynthesizedSpeech>>(new Map());
-  const preloadingRef = useRef<Set<number>>(new Set());
+  const wordAudioRef = useRef<HTMLAudioElement | null>(null);
+  const [pronouncingWord, setPronouncingWord] = useState<string | null>(null);
+  // Keyed by sentence ID and speech settings (see getAudioCacheKey). Replaced (not cleared) on reset,
+  // so late preloads for the previous text land in an orphaned Map.
+  const audioCacheRef = useRef<Map<string, SynthesizedSpeech>>(new Map());
+  const preloadingRef = useRef<Set<string>>(new Set());
+  // Aborted (and replaced) by reset and by stop respectively, so requests for a discarded text
+  // or playback are cancelled and their late results never reach the state
+  const textRequestsRef = useRef<AbortController>(new AbortController());
+  const speechRequestsRef = useRef<AbortController>(new AbortController());
+  // Grammar explanations by sentence text; they do not depend on the rest of the text
+  const grammarCacheRef = useRef<Map<string, GrammarExplanation>>(new Map());
+  // Compound parts by word, null for words that are not compounds
+  const compoundCacheRef = useRef<Map<string, CompoundPart[] | null>>(new Map());
+  // Inflection tables by class and base form, null for words no provider could inflect
+  const inflectionCacheRef = useRef<Map<string, InflectionTable | null>>(new Map());
+  // Occurrences already collected for review, so a re-rendered tooltip does not save them again
+  const collectedLookupsRef = useRef<Set<string>>(new Set());
+  // The HTML the library document was saved with, to tell an unchanged text from an edited one
+  const documentHtmlRef = useRef<string | null>(null);
+  // The word whose tooltip is open, to return keyboard focus to when the tooltip closes
+  const tooltipWordRef = useRef<HTMLElement | null>(null);
+  // Replaced on every render so the window listener always sees the current state
+  const shortcutHandlerRef = useRef<(event: KeyboardEvent) => void>(() => {});
 
-  // Stop speech on component unmount
+  const isSpeaking = playback.status !== 'idle';
+  const speakingSentenceId = playback.sentenceIndex;
+  const playbackRate = getPlaybackRate(speechSettings);
+  const getAudioCacheKey = (sentenceId: number) => `${sentenceId}|${getSpeechCacheKey(speechSettings)}`;
+  const savedForms = useMemo(() => getVocabularyForms(vocabulary), [vocabulary]);
+  
+  // Load the vocabulary notebook and known-word statuses
   useEffect(() => {
-    return () => {
-      isCancelledRef.current = true;
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current = null;
-      }
-    };
+    getVocabulary()
+      .then(setVocabulary)
+      .catch(error => console.warn("Could not load the vocabulary notebook:", error));
+    getWordStatuses()
+      .then(setWordStatuses)
+      .catch(error => console.warn("Could not load word statuses:", error));
   }, []);
-  
-  // Close tooltip on outside click
+
+  const refreshDocuments = useCallback(() => {
+    getDocumentSummaries()
+      .then(setDocuments)
+      .catch(error => console.warn("Could not load the library:", error));
+  }, []);
+
+  useEffect(refreshDocuments, [refreshDocuments]);
+
+  // Remember the sentence being read aloud, so a reopened document can resume there
+  useEffect(() => {
+    if (speakingSentenceId !== null) setLastSentenceIndex(speakingSentenceId);
+  }, [speakingSentenceId]);
+
+  // Keep the open document's translations and reading position in the library.
+  // Debounced, as batch translation updates the maps chunk by chunk.
+  useEffect(() => {
+    if (!documentId) return;
+    const timer = setTimeout(() => {
+      updateDocument(documentId, { translations, analyses, sentenceTranslations, lastSentenceIndex })
+        .catch(error => console.warn("Could not save the document:", error));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [documentId, translations, analyses, sentenceTranslations, lastSentenceIndex]);
+
+  const refreshDueCount = useCallback(() => {
+    getReviewStats(reviewPreferences.cardTypes)
+      .then(stats => setDueCount(stats.dueCount))
+      .catch(error => console.warn("Could not read review stats:", error));
+  }, [reviewPreferences.cardTypes]);
+
+  // Keep a review card for each notebook entry and enabled card type
+  useEffect(() => {
+    syncReviewCards(vocabulary, reviewPreferences.cardTypes)
+      .then(refreshDueCount)
+      .catch(error => console.warn("Could not update review cards:", error));
+  }, [vocabulary, reviewPreferences.cardTypes, refreshDueCount]);
+
+  // Collect looked-up words for review once their translation (and base form, if coming) is known
   useEffect(() => {
-    const closeTooltip = () => setTooltip(null);
+    if (!reviewPreferences.collectLookups || !tooltip?.word || tooltip.isAnalysisPending) return;
+    if (PLACEHOLDER_TRANSLATIONS.has(tooltip.text)) return;
+    // Compound parts are looked up without an occurrence
+    const key = tooltip.occurrenceKey ?? tooltip.word.toLowerCase();
+    if (collectedLookupsRef.current.has(key)) return;
+    if (countLookupsCollectedToday(vocabulary) >= MAX_DAILY_COLLECTED_LOOKUPS) return;
+    collectedLookupsRef.current.add(key);
+    saveToNotebook({
+      word: tooltip.word,
+      baseForm: tooltip.analysis?.baseForm || tooltip.word,
+      translation: tooltip.text,
+      sentence: getTooltipSentence(tooltip),
+      sourceTitle: textTitle,
+      tags: [LOOKUP_TAG],
+    });
+  }, [tooltip?.occurrenceKey, tooltip?.word, tooltip?.text, tooltip?.analysis, tooltip?.isAnalysisPending, textTitle, reviewPreferences.collectLookups, vocabulary]);
+
+  // Split the word of the popover into its parts if it is a compound
+  useEffect(() => {
+    const word = tooltip?.word;
+    const occurrenceKey = tooltip?.occurrenceKey;
+    if (!word || !occurrenceKey || tooltip.compound !== undefined) return;
+    const showParts = (compound: CompoundPart[] | null) =>
+      setTooltip(prev => prev && prev.occurrenceKey === occurrenceKey ? { ...prev, compound } : prev);
+
+    const cached = compoundCacheRef.current.get(word);
+    if (cached !== undefined) {
+      showParts(cached);
+      return;
+    }
+    const { signal } = textRequestsRef.current;
+    splitCompound(word, getTooltipSentence(tooltip), signal)
+      .then(parts => {
+        compoundCacheRef.current.set(word, parts);
+        showParts(parts);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.warn("Could not split the compound:", error);
+        showParts(null);
+      });
+  }, [tooltip?.occurrenceKey, tooltip?.word]);
+
+  // Close the word popover when the user presses the mouse anywhere outside it
+  useEffect(() => {
+    const closeTooltip = (event: MouseEvent) => {
+      if (!(event.target as Element | null)?.closest?.('[data-word-tooltip]')) setTooltip(null);
+    };
     if (tooltip) {
-      window.addEventListener('click', closeTooltip);
+      window.addEventListener('mousedown', closeTooltip);
     }
     return () => {
-      window.removeEventListener('click', closeTooltip);
+      window.removeEventListener('mousedown', closeTooltip);
     };
   }, [tooltip]);
   
+  // Dismiss the "translate selection" button on the next mousedown elsewhere
+  useEffect(() => {
+    const clearSelection = () => setTextSelection(null);
+    if (textSelection) {
+      window.addEventListener('mousedown', clearSelection);
+    }
+    return () => {
+      window.removeEventListener('mousedown', clearSelection);
+    };
+  }, [textSelection]);
+
   // Apply playback rate changes to the current audio element
   useEffect(() => {
     if (audioRef.current) {
@@ -60,120 +246,465 @@ const App: React.FC = () => {
   }, [playbackRate]);
 
 
-  const handleAnalyse = async () => {
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = htmlContent;
-    const plainText = tempDiv.innerText;
-
-    if (!plainText.trim()) return;
-    
+  /**
+   * Switches to the analysis view for a tokenized text and translates, in the background,
+   * every word occurrence that is not yet in `known` (a reopened document's translations).
+   */
+  const analyseText = async (tokenized: TokenizedText, known?: Map<string, ContextualTranslation>) => {
+    const { signal } = textRequestsRef.current;
     setIsBatchTranslating(true);
 
     // 1. Split text into sentences for TTS (this is fast)
-    const sentenceRegex = /[^.!?]+[.!?]?/g;
-    const sentencesText = plainText.match(sentenceRegex) || [];
-    setSentencesForTTS(sentencesText.filter(s => s.trim().length > 0));
+    setTokenizedText(tokenized);
+    setSentencesForTTS(tokenized.sentences.map(sentence => sentence.text));
 
     // 2. Switch to the analysis view immediately
     setIsAnalyzing(true);
 
     // 3. Start batch translation in the background
     try {
-      // Extract unique words (lowercase for consistency and to avoid duplicates)
-      const wordRegex = /[a-zA-ZäöüÄÖÜ]+/g;
-      const words = plainText.match(wordRegex) || [];
-      const uniqueWords = Array.from(new Set(words.map(w => w.toLowerCase())));
+      // Each distinct word of each sentence is translated in the context of that sentence
+      const occurrences = collectOccurrences(tokenized)
+          .filter(o => !known?.has(getOccurrenceKey(o.sentenceId, o.word)));
+      const uniqueWords = Array.from(new Set(occurrences.map(o => o.word)));
 
-      // Chunk words into batches of 50
+      // Unambiguous words translated in earlier sessions come from the persistent cache
+      const cached = await getCachedTranslations(uniqueWords, getFallbackChain());
+      if (signal.aborted) return;
+      if (cached.size > 0) {
+          const cachedOccurrences = occurrences.filter(o => cached.has(o.word));
+          setTranslations(prevMap => {
+              const nextMap = new Map(prevMap);
+              for (const { word, sentenceId } of cachedOccurrences) {
+                  const { translation, senses } = cached.get(word)!;
+                  nextMap.set(getOccurrenceKey(sentenceId, word), { translation, senses: senses || [] });
+              }
+              return nextMap;
+          });
+          setAnalyses(prevMap => {
+              const nextMap = new Map(prevMap);
+              for (const { word, sentenceId } of cachedOccurrences) {
+                  const { analysis } = cached.get(word)!;
+                  if (analysis !== undefined) nextMap.set(getOccurrenceKey(sentenceId, word), analysis);
+              }
+              return nextMap;
+          });
+      }
+      const occurrencesToTranslate = occurrences.filter(o => !cached.has(o.word));
+
+      // Chunk occurrences into batches of 50, translated in parallel within the request scheduler's limits
       const chunkSize = 50;
-      for (let i = 0; i < uniqueWords.length; i += chunkSize) {
-          const chunk = uniqueWords.slice(i, i + chunkSize);
-          const newTranslations = await translateWordsBatch(chunk);
-          
-          // Merge new translations into the existing map without re-rendering per chunk
-          setTranslations(prevMap => new Map([...prevMap, ...newTranslations]));
+      const chunks: typeof occurrencesToTranslate[] = [];
+      for (let i = 0; i < occurrencesToTranslate.length; i += chunkSize) {
+          chunks.push(occurrencesToTranslate.slice(i, i + chunkSize));
       }
+      const results = await Promise.allSettled(chunks.map(async chunk => {
+          const newTranslations = await translateWordsBatch(chunk, signal);
+          // Merge each chunk as it arrives, without waiting for the others
+          if (!signal.aborted) setTranslations(prevMap => new Map([...prevMap, ...newTranslations]));
+      }));
 
+      const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected' && !isAbortError(r.reason));
+      if (failures.length > 0) {
+          console.error(`${failures.length} of ${chunks.length} translation batches failed:`, failures[0].reason);
+      }
     } catch (error) {
         console.error("Failed to perform batch translation:", error);
     } finally {
-        setIsBatchTranslating(false);
+        // After a reset, the flag belongs to whatever text is analysed next
+        if (!signal.aborted) setIsBatchTranslating(false);
+    }
+  };
+
+  const handleAnalyse = async () => {
+    const { signal } = textRequestsRef.current;
+    const tokenized = tokenizeHtml(htmlContent);
+
+    if (tokenized.sentences.length === 0) return;
+
+    // Imported texts keep the title of their file, book or article
+    const title = textTitle || deriveTitle(tokenized.text);
+    setTextTitle(title);
+
+    // Every analysed text is saved to the library, so it can be reread without translating it again.
+    // Analysing the saved text again keeps its document instead of adding a copy.
+    if (!documentId || documentHtmlRef.current !== htmlContent) {
+      const html = htmlContent;
+      addDocument({ title, source: textSource || 'Pasted text', html, text: tokenized.text, sentenceCount: tokenized.sentences.length })
+        .then(document => {
+          refreshDocuments();
+          // After a reset, the document belongs to a text that is no longer open
+          if (signal.aborted) return;
+          documentHtmlRef.current = html;
+          setDocumentId(document.id);
+        })
+        .catch(error => console.warn("Could not save the text to the library:", error));
+    }
+
+    await analyseText(tokenized);
+  };
+
+  /**
+   * Reopens a saved document with its translations; only words it has no translation for are translated.
+   */
+  const handleOpenDocument = async (id: string) => {
+    let document: LibraryDocument | null;
+    try {
+      document = await openDocument(id);
+    } catch (error) {
+      console.error("Failed to open the document:", error);
+      return;
+    }
+    if (!document) {
+      refreshDocuments();
+      return;
+    }
+
+    handleReset();
+    setActiveView(null);
+    setHtmlContent(document.html);
+    setTextTitle(document.title);
+    setTextSource(document.source);
+    setTranslations(document.translations);
+    setAnalyses(document.analyses);
+    setSentenceTranslations(document.sentenceTranslations);
+    setLastSentenceIndex(document.lastSentenceIndex);
+    setResumeSentenceIndex(document.lastSentenceIndex);
+    documentHtmlRef.current = document.html;
+    setDocumentId(document.id);
+    refreshDocuments();
+    await analyseText(tokenizeHtml(document.html), document.translations);
+  };
+
+  const handleRenameDocument = async (id: string, title: string) => {
+    try {
+      await updateDocument(id, { title });
+      if (id === documentId) setTextTitle(title);
+      refreshDocuments();
+    } catch (error) {
+      console.error("Failed to rename the document:", error);
+    }
+  };
+
+  const handleDeleteDocument = async (id: string) => {
+    try {
+      await deleteDocument(id);
+      if (id === documentId) setDocumentId(null);
+      setDocuments(prev => prev.filter(document => document.id !== id));
+    } catch (error) {
+      console.error("Failed to delete the document:", error);
     }
   };
   
-  const handleWordClick = useCallback(async (event: React.MouseEvent<HTMLSpanElement>) => {
+  const getTokenStatus = useCallback((token: Token): WordStatus => {
+    const baseForm = analyses.get(getOccurrenceKey(token.sentenceId, token.text))?.baseForm;
+    return lookupWordStatus(token.text, baseForm, wordStatuses);
+  }, [analyses, wordStatuses]);
+
+  const knownRatio = useMemo(
+    () => tokenizedText ? computeKnownRatio(tokenizedText.tokens, getTokenStatus) : null,
+    [tokenizedText, getTokenStatus]
+  );
+
+  // Only computed while the report is shown; base forms improve as more words are analysed
+  const textStatistics = useMemo(
+    () => isReportOpen && tokenizedText
+      ? computeTextStatistics(tokenizedText, token => analyses.get(getOccurrenceKey(token.sentenceId, token.text))?.baseForm)
+      : null,
+    [isReportOpen, tokenizedText, analyses]
+  );
+
+  /**
+   * Sets the status of a word's lemma: the stored lemma that currently gives the word its
+   * status if there is one (so un-marking works for inflected forms), else its base form.
+   */
+  const changeWordStatus = useCallback((word: string, baseForm: string | undefined, status: WordStatus) => {
+    const lemma = findWordStatus(word, baseForm, wordStatuses)?.lemma ?? normalizeLemma(baseForm || word);
+    setWordStatuses(prev => {
+      const next = new Map(prev);
+      if (status === 'new') next.delete(lemma);
+      else next.set(lemma, status);
+      return next;
+    });
+    setWordStatus(lemma, status).catch(error => console.error("Failed to save word status:", error));
+  }, [wordStatuses]);
+
+  // Number keys 1-4 set the status of the word in the open tooltip
+  useEffect(() => {
+    if (!tooltip?.word) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+      const status = WORD_STATUSES[Number(event.key) - 1];
+      if (!status || event.ctrlKey || event.metaKey || event.altKey) return;
+      changeWordStatus(tooltip.word!, tooltip.analysis?.baseForm, status);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tooltip, changeWordStatus]);
+
+  const handleWordClick = useCallback(async (event: WordActivationEvent, token: Token) => {
     event.stopPropagation();
+    tooltipWordRef.current = event.currentTarget;
+
+    // Alt-click cycles the word's status instead of translating it
+    if (event.altKey) {
+      const baseForm = analyses.get(getOccurrenceKey(token.sentenceId, token.text))?.baseForm;
+      changeWordStatus(token.text, baseForm, nextWordStatus(getTokenStatus(token)));
+      return;
+    }
+
     if (isTranslating) return;
+    const { signal } = textRequestsRef.current;
 
-    const wordText = event.currentTarget.textContent || '';
-    if (!wordText.trim()) return;
+    // Normalize the word for lookup/API call; the tokenizer has already separated punctuation
+    const cleanedWord = token.text.toLowerCase();
+    const { sentenceId } = token;
 
-    // Clean and normalize the word for lookup/API call
-    const cleanedWord = wordText.replace(/[.,!?;:)"'”\]`]*$/, '').toLowerCase();
-    if (!cleanedWord) return;
+    const sentence = sentencesForTTS[sentenceId]?.trim();
+    const occurrenceKey = getOccurrenceKey(sentenceId, cleanedWord);
 
     const rect = event.currentTarget.getBoundingClientRect();
     const tooltipX = rect.left + rect.width / 2;
     const tooltipY = rect.top;
+    const anchor = { x: tooltipX, y: tooltipY, anchorBottom: rect.bottom };
+    const position = { ...anchor, word: cleanedWord, occurrenceKey, sentenceId };
 
     // 1. Check cache first for instant translation
-    const cachedTranslation = translations.get(cleanedWord);
-    if (cachedTranslation) {
-        setTooltip({ x: tooltipX, y: tooltipY, text: cachedTranslation });
+    const known = translations.get(occurrenceKey);
+    if (known && analyses.has(occurrenceKey)) {
+        setTooltip({ ...position, text: known.translation, senses: known.senses, example: known.example, analysis: analyses.get(occurrenceKey) });
         return; // Found in cache, we're done!
     }
 
-    // 2. Fallback to individual translation if not in cache
+    // 2. Consult the persistent cache (unambiguous words only) before calling a provider
+    const stored = await getCachedWord(cleanedWord, getFallbackChain());
+    if (signal.aborted) return;
+    if (stored && stored.analysis !== undefined) {
+        const senses = stored.senses || [];
+        const { translation, example } = stored;
+        setTranslations(prevMap => new Map(prevMap).set(occurrenceKey, { translation, senses, example }));
+        setAnalyses(prevMap => new Map(prevMap).set(occurrenceKey, stored.analysis!));
+        setTooltip({ ...position, text: translation, senses, example, analysis: stored.analysis });
+        return;
+    }
+
+    const cachedTranslation = known || (stored && { translation: stored.translation, senses: stored.senses || [] });
+    if (cachedTranslation) {
+        // The batch translation has no morphology, so show the translation right away
+        // and fill in the analysis once the single-word lookup returns.
+        setTooltip({ ...position, text: cachedTranslation.translation, senses: cachedTranslation.senses, isAnalysisPending: true });
+        try {
+            const { analysis, example } = await translateWord(cleanedWord, sentence, signal);
+            setAnalyses(prevMap => new Map(prevMap).set(occurrenceKey, analysis));
+            if (example) {
+              setTranslations(prevMap => new Map(prevMap).set(occurrenceKey, { ...cachedTranslation, example }));
+            }
+            setTooltip(prev => prev && prev.occurrenceKey === occurrenceKey ? { ...prev, example, analysis, isAnalysisPending: false } : prev);
+        } catch (error) {
+            if (signal.aborted) return;
+            setTooltip(prev => prev && prev.occurrenceKey === occurrenceKey ? { ...prev, analysis: null, isAnalysisPending: false } : prev);
+        }
+        return;
+    }
+
+    // 3. Fallback to individual translation if not in cache
     setIsTranslating(true);
-    setTooltip({ x: tooltipX, y: tooltipY, text: '...' });
+    setTooltip({ ...anchor, text: '...' });
 
     try {
-      const translation = await translateWord(cleanedWord);
-      // Update cache with the new translation for future clicks
-      setTranslations(prevMap => new Map(prevMap).set(cleanedWord, translation));
-      setTooltip({ x: tooltipX, y: tooltipY, text: translation });
+      const { translation, senses, example, analysis, notFound } = await translateWord(cleanedWord, sentence, signal);
+      // Update caches with the new translation for future clicks. A missing or failed translation is
+      // left out, so it is neither exported nor saved with the document and the next click retries.
+      if (!notFound && !PLACEHOLDER_TRANSLATIONS.has(translation)) {
+        setTranslations(prevMap => new Map(prevMap).set(occurrenceKey, { translation, senses, example }));
+        setAnalyses(prevMap => new Map(prevMap).set(occurrenceKey, analysis));
+      }
+      setTooltip({ ...position, text: translation, senses, example, analysis });
     } catch (error) {
-      setTooltip({ x: tooltipX, y: tooltipY, text: 'Error' });
+      if (!signal.aborted) setTooltip({ ...anchor, text: 'Error' });
     } finally {
       setIsTranslating(false);
     }
-  }, [isTranslating, translations]);
+  }, [isTranslating, translations, analyses, sentencesForTTS, changeWordStatus, getTokenStatus]);
+
+  /**
+   * Opens the translation panel for a passage and fills it in when the translation arrives.
+   */
+  const showPassageTranslation = async (title: string, source: string, sentenceId?: number) => {
+    const cached = sentenceId !== undefined ? sentenceTranslations.get(sentenceId) : undefined;
+    setPassageTranslation({ title, source, sentenceId, translation: cached ?? null });
+    if (cached !== undefined) return;
+
+    const { signal } = textRequestsRef.current;
+    try {
+      const translation = await translateText(source, signal);
+      if (sentenceId !== undefined) {
+        setSentenceTranslations(prevMap => new Map(prevMap).set(sentenceId, translation));
+      }
+      setPassageTranslation(prev => prev && prev.source === source ? { ...prev, translation } : prev);
+    } catch (error) {
+      if (signal.aborted) return;
+      const message = error instanceof Error ? error.message : 'Translation failed.';
+      setPassageTranslation(prev => prev && prev.source === source ? { ...prev, error: message } : prev);
+    }
+  };
+
+  /**
+   * Opens the grammar panel for a sentence and fills it in when the explanation arrives.
+   */
+  const showGrammarExplanation = async (sentence: string) => {
+    const cached = grammarCacheRef.current.get(sentence);
+    setInflectionRequest(null);
+    setGrammarRequest({ sentence, explanation: cached ?? null });
+    if (cached) return;
 
-  const playAudio = useCallback((speech: SynthesizedSpeech): Promise<void> => {
+    const { signal } = textRequestsRef.current;
+    try {
+      const explanation = await explainGrammar(sentence, signal);
+      grammarCacheRef.current.set(sentence, explanation);
+      setGrammarRequest(prev => prev && prev.sentence === sentence ? { ...prev, explanation } : prev);
+    } catch (error) {
+      if (signal.aborted) return;
+      const message = error instanceof Error ? error.message : 'Grammar explanation failed.';
+      setGrammarRequest(prev => prev && prev.sentence === sentence ? { ...prev, error: message } : prev);
+    }
+  };
+
+  /**
+   * Opens the table of all forms of the popover's word, with the clicked form highlighted.
+   */
+  const showInflectionTable = async (word: string, baseForm: string, inflectionClass: InflectionClass) => {
+    const key = `${inflectionClass}:${baseForm.toLowerCase()}`;
+    const isShown = (request: InflectionRequest | null) => Boolean(request && request.baseForm === baseForm && request.word === word);
+    const showResult = (table: InflectionTable | null) => setInflectionRequest(prev => !isShown(prev) ? prev : table
+      ? { ...prev!, table }
+      : { ...prev!, error: `No table of forms is available for "${baseForm}". Irregular words need the Gemini provider.` });
+
+    dismissTooltip();
+    setGrammarRequest(null);
+    setInflectionRequest({ word, baseForm, inflectionClass, table: null });
+    const cached = inflectionCacheRef.current.get(key);
+    if (cached !== undefined) {
+      showResult(cached);
+      return;
+    }
+
+    const { signal } = textRequestsRef.current;
+    try {
+      const table = await getInflectionTable(baseForm, inflectionClass, signal);
+      inflectionCacheRef.current.set(key, table);
+      showResult(table);
+    } catch (error) {
+      if (signal.aborted) return;
+      const message = error instanceof Error ? error.message : 'Generating the forms failed.';
+      setInflectionRequest(prev => isShown(prev) ? { ...prev!, error: message } : prev);
+    }
+  };
+
+  const handleSentenceClick = useCallback((sentenceId: number) => {
+    const sentence = sentencesForTTS[sentenceId];
+    if (!sentence) return;
+    showPassageTranslation(`Sentence ${sentenceId + 1}`, sentence.trim(), sentenceId);
+  }, [sentencesForTTS, sentenceTranslations]);
+
+  const handleTextSelect = useCallback((text: string, rect: DOMRect) => {
+    setTextSelection({ text, x: rect.left + rect.width / 2, y: rect.top });
+  }, []);
+
+  const handleTranslateSelection = () => {
+    if (!textSelection) return;
+    showPassageTranslation('Selection', textSelection.text.replace(/\s+/g, ' '));
+    setTextSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleExplainSelection = () => {
+    if (!textSelection) return;
+    showGrammarExplanation(textSelection.text.replace(/\s+/g, ' '));
+    setTextSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleToggleParallelView = async () => {
+    const enabling = !isParallelView;
+    setIsParallelView(enabling);
+    if (!enabling || isTranslatingSentences) return;
+
+    const missingIds = sentencesForTTS.map((_, id) => id).filter(id => !sentenceTranslations.has(id));
+    if (missingIds.length === 0) return;
+
+    const { signal } = textRequestsRef.current;
+    setIsTranslatingSentences(true);
+    try {
+      for (let i = 0; i < missingIds.length; i += SENTENCE_BATCH_SIZE) {
+        const ids = missingIds.slice(i, i + SENTENCE_BATCH_SIZE);
+        const translated = await translateSentences(ids.map(id => sentencesForTTS[id].trim()), signal);
+        if (signal.aborted) return;
+        setSentenceTranslations(prevMap => {
+          const nextMap = new Map(prevMap);
+          ids.forEach((id, index) => {
+            if (translated[index]) nextMap.set(id, translated[index]);
+          });
+          return nextMap;
+        });
+      }
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Failed to translate sentences:", error);
+    } finally {
+      if (!signal.aborted) setIsTranslatingSentences(false);
+    }
+  };
+
+  const stopAudio = () => {
+    const audio = audioRef.current;
+    if (audio) {
+      audio.pause();
+      audio.src = ''; // Fires onerror, which playAudio treats as a cancellation
+      audioRef.current = null;
+    }
+    setSpeakingWordStart(null);
+  };
+
+  /**
+   * Plays a clip until it ends. When the tokens of the spoken sentence are given, the word
+   * being spoken is tracked from estimated word timings as playback progresses.
+   * Resolves early, without error, if `isCancelled` reports that the request was superseded.
+   */
+  const playAudio = useCallback((speech: SynthesizedSpeech, sentenceTokens: Token[] | undefined, isCancelled: () => boolean): Promise<void> => {
     return new Promise((resolve, reject) => {
-        if (isCancelledRef.current) {
+        if (isCancelled()) {
             return resolve();
         }
 
-        const base64ToBlob = (base64: string, mimeType: string): Blob => {
-            const byteCharacters = atob(base64);
-            const byteNumbers = new Array(byteCharacters.length);
-            for (let i = 0; i < byteCharacters.length; i++) {
-                byteNumbers[i] = byteCharacters.charCodeAt(i);
-            }
-            const byteArray = new Uint8Array(byteNumbers);
-            return new Blob([byteArray], { type: mimeType });
-        };
-
         try {
-            const audioBlob = base64ToBlob(speech.data, speech.mimeType);
-            const audioUrl = URL.createObjectURL(audioBlob);
+            const audioUrl = createSpeechUrl(speech);
             const audio = new Audio(audioUrl);
             audio.playbackRate = playbackRate;
             audioRef.current = audio;
 
             const cleanup = () => {
                 URL.revokeObjectURL(audioUrl);
-                audioRef.current = null;
+                if (audioRef.current === audio) audioRef.current = null;
+                setSpeakingWordStart(null);
             };
 
+            if (sentenceTokens && sentenceTokens.length > 0) {
+                let timings: ReturnType<typeof estimateWordTimings> = [];
+                audio.onloadedmetadata = () => {
+                    timings = estimateWordTimings(sentenceTokens, audio.duration);
+                };
+                audio.ontimeupdate = () => {
+                    if (!isCancelled()) setSpeakingWordStart(findWordAtTime(timings, audio.currentTime));
+                };
+            }
+
             audio.onended = () => {
                 cleanup();
                 resolve();
             };
             audio.onerror = (e) => {
                 cleanup();
-                if (isCancelledRef.current) {
+                if (isCancelled()) {
                     console.log("Audio playback cancelled by user (onerror).");
                     resolve();
                 } else {
@@ -184,7 +715,7 @@ const App: React.FC = () => {
             
             audio.play().catch(e => {
                 cleanup();
-                if (isCancelledRef.current) {
+                if (isCancelled()) {
                     console.log("Audio playback cancelled by user (play promise rejected).");
                     resolve();
                 } else {
@@ -199,101 +730,393 @@ const App: React.FC = () => {
     });
   }, [playbackRate]);
 
-  const speakSentences = useCallback(async (startIndex: number = 0) => {
-    if (startIndex >= sentencesForTTS.length) {
-        setIsSpeaking(false);
-        setSpeakingSentenceId(null);
-        return;
+  /**
+   * Starts synthesizing the sentences after `index` in the background so they play without a gap.
+   */
+  const preloadSentences = (index: number) => {
+    const cache = audioCacheRef.current;
+    const preloading = preloadingRef.current;
+    for (let j = 1; j <= PRELOAD_AHEAD_COUNT; j++) {
+        const id = index + j;
+        if (id >= sentencesForTTS.length) break;
+        const key = getAudioCacheKey(id);
+        if (!cache.has(key) && !preloading.has(key)) {
+            preloading.add(key);
+            synthesizeSpeech(sentencesForTTS[id].replace(/\n/g, ' '), speechSettings, { signal: speechRequestsRef.current.signal })
+                .then(audioData => cache.set(key, audioData))
+                .catch(err => {
+                    if (!isAbortError(err)) console.error(`Preloading failed for sentence ${id}:`, err);
+                })
+                .finally(() => preloading.delete(key));
+        }
     }
+  };
 
-    isCancelledRef.current = false;
-    setIsSpeaking(true);
-
-    for (let i = startIndex; i < sentencesForTTS.length; i++) {
-        if (isCancelledRef.current) break;
-
-        const sentenceText = sentencesForTTS[i];
-        setSpeakingSentenceId(i);
-
-        // --- Start preloading next sentences ---
-        for (let j = 1; j <= PRELOAD_AHEAD_COUNT; j++) {
-            const preloadIndex = i + j;
-            if (preloadIndex < sentencesForTTS.length) {
-                const sentenceToPreload = sentencesForTTS[preloadIndex];
-                const id = preloadIndex;
-                if (!audioCacheRef.current.has(id) && !preloadingRef.current.has(id)) {
-                    preloadingRef.current.add(id);
-                    synthesizeSpeech(sentenceToPreload.replace(/\n/g, ' '))
-                        .then(audioData => {
-                            if (!isCancelledRef.current) audioCacheRef.current.set(id, audioData);
-                        })
-                        .catch(err => console.error(`Preloading failed for sentence ${id}:`, err))
-                        .finally(() => preloadingRef.current.delete(id));
-                }
-            }
-        }
+  /**
+   * Returns the audio of a sentence with the current speech settings, synthesizing and caching it if needed.
+   * A sentence that is already being preloaded shares that request.
+   */
+  const getSentenceSpeech = async (sentenceId: number, options: RequestOptions = {}): Promise<SynthesizedSpeech> => {
+    const cache = audioCacheRef.current;
+    const key = getAudioCacheKey(sentenceId);
+    const cached = cache.get(key);
+    if (cached) return cached;
+    const audioData = await synthesizeSpeech(sentencesForTTS[sentenceId].replace(/\n/g, ' '), speechSettings, options);
+    cache.set(key, audioData);
+    return audioData;
+  };
 
-        try {
-            let audioData = audioCacheRef.current.get(i);
-            if (!audioData) {
-                audioData = await synthesizeSpeech(sentenceText.replace(/\n/g, ' '));
-                if (isCancelledRef.current) break;
-                audioCacheRef.current.set(i, audioData);
-            }
-            if (isCancelledRef.current) break;
-            await playAudio(audioData);
-        } catch (error) {
-            console.error("Failed to speak sentence:", error);
-            const errorMessage = error instanceof Error ? error.message : "An unknown TTS error occurred.";
-            alert(`Error during text-to-speech: ${errorMessage}`);
-            break;
+  // The player side of the playback state machine: every new request (play, skip, next sentence,
+  // loop) loads and plays its sentence; a superseding request or unmount cancels it.
+  useEffect(() => {
+    if (playback.status !== 'loading' || playback.sentenceIndex === null) return;
+
+    const index = playback.sentenceIndex;
+    let cancelled = false;
+    const isCancelled = () => cancelled;
+
+    const playSentence = async () => {
+        preloadSentences(index);
+
+        // Ahead of preloads and exports, and cancelled by stop
+        const audioData = await getSentenceSpeech(index, { signal: speechRequestsRef.current.signal, priority: 1 });
+        if (cancelled) return;
+
+        dispatchPlayback({ type: 'AUDIO_READY' });
+        const sentenceTokens = tokenizedText?.tokens.filter(token => token.sentenceId === index);
+        await playAudio(audioData, sentenceTokens, isCancelled);
+        if (!cancelled) dispatchPlayback({ type: 'SENTENCE_ENDED', sentenceCount: sentencesForTTS.length });
+    };
+
+    playSentence().catch(error => {
+        if (cancelled) return;
+        console.error("Failed to speak sentence:", error);
+        const errorMessage = error instanceof Error ? error.message : "An unknown TTS error occurred.";
+        alert(`Error during text-to-speech: ${errorMessage}`);
+        dispatchPlayback({ type: 'ERROR' });
+    });
+
+    return () => {
+        cancelled = true;
+        stopAudio();
+    };
+  }, [playback.requestId]);
+
+  const handlePlayPause = () => {
+    switch (playback.status) {
+      case 'idle':
+        if (sentencesForTTS.length > 0) dispatchPlayback({ type: 'PLAY', sentenceIndex: resumeSentenceIndex ?? 0 });
+        setResumeSentenceIndex(null);
+        break;
+      case 'playing':
+        audioRef.current?.pause();
+        dispatchPlayback({ type: 'PAUSE' });
+        break;
+      case 'paused': {
+        const audio = audioRef.current;
+        if (!audio) {
+          dispatchPlayback({ type: 'STOP' });
+          break;
         }
+        dispatchPlayback({ type: 'RESUME' });
+        audio.play().catch(error => {
+          // Pausing or stopping again before playback resumes also rejects the promise
+          if (isAbortError(error) || audioRef.current !== audio) return;
+          console.error("Failed to resume playback:", error);
+          dispatchPlayback({ type: 'STOP' });
+        });
+        break;
+      }
     }
+  };
 
-    setIsSpeaking(false);
-    setSpeakingSentenceId(null);
-    audioRef.current = null;
-  }, [sentencesForTTS, playAudio]);
+  const cancelSpeechRequests = () => {
+    speechRequestsRef.current.abort();
+    speechRequestsRef.current = new AbortController();
+  };
+
+  const handleStop = () => {
+    cancelSpeechRequests();
+    dispatchPlayback({ type: 'STOP' });
+  };
+
+  const handleSkip = (offset: number) => {
+    dispatchPlayback({ type: 'SKIP', offset, sentenceCount: sentencesForTTS.length });
+  };
+
+  const handleToggleLoop = () => dispatchPlayback({ type: 'TOGGLE_LOOP' });
+
+  const handlePlayFromSentence = useCallback((sentenceId: number) => {
+    dispatchPlayback({ type: 'PLAY', sentenceIndex: sentenceId });
+  }, []);
+
+  /**
+   * Pronounces a single word from the tooltip, pausing any read-aloud so the two don't overlap.
+   */
+  const handleSpeakWord = async (word: string) => {
+    if (playback.status === 'playing') {
+      audioRef.current?.pause();
+      dispatchPlayback({ type: 'PAUSE' });
+    }
+    wordAudioRef.current?.pause();
+    setPronouncingWord(word);
+
+    try {
+      const speech = await synthesizeWord(word, speechSettings);
+      const audioUrl = createSpeechUrl(speech);
+      const audio = new Audio(audioUrl);
+      audio.onended = audio.onerror = () => URL.revokeObjectURL(audioUrl);
+      wordAudioRef.current = audio;
+      await audio.play();
+    } catch (error) {
+      console.error("Failed to pronounce word:", error);
+      const errorMessage = error instanceof Error ? error.message : "An unknown TTS error occurred.";
+      alert(`Error during text-to-speech: ${errorMessage}`);
+    } finally {
+      setPronouncingWord(prev => prev === word ? null : prev);
+    }
+  };
+
+  const isTooltipWordSaved = (data: TooltipData): boolean => {
+    if (!data?.word) return false;
+    const baseForm = data.analysis?.baseForm.toLowerCase();
+    return vocabulary.some(entry =>
+      (entry.word === data.word || (baseForm !== undefined && entry.baseForm === baseForm)) && entry.translation === data.text
+    );
+  };
+
+  const getTooltipSentence = (data: TooltipData): string =>
+    data?.sentenceId !== undefined ? sentencesForTTS[data.sentenceId]?.replace(/\s+/g, ' ').trim() || '' : '';
+
+  /**
+   * Opens the table of forms of the tooltip's word, or undefined when the word's analysis
+   * has not arrived or says it does not inflect.
+   */
+  const getTooltipInflection = (data: TooltipData): (() => void) | undefined => {
+    const inflectionClass = data?.analysis ? getInflectionClass(data.analysis.partOfSpeech) : null;
+    if (!data?.word || !data.analysis || !inflectionClass) return undefined;
+    const { word, analysis } = data;
+    return () => showInflectionTable(word, analysis.baseForm, inflectionClass);
+  };
+
+  /**
+   * The tooltip's content as one sentence for screen readers, which cannot see the tooltip appear.
+   */
+  const describeTooltip = (data: TooltipData): string => {
+    if (!data) return '';
+    if (data.text === '...') return 'Translating...';
+    const parts = [data.word ? `${data.word}: ${data.text}.` : data.text];
+    if (data.analysis) parts.push(`Base form ${data.analysis.baseForm}, ${data.analysis.partOfSpeech}.`);
+    return parts.join(' ');
+  };
 
+  const saveToNotebook = async (input: NewVocabularyEntry) => {
+    try {
+      const entry = await addVocabularyEntry(input);
+      setVocabulary(prev => prev.some(e => e.id === entry.id) ? prev : [entry, ...prev]);
+    } catch (error) {
+      console.error("Failed to save word:", error);
+      alert("Could not save the word to the notebook.");
+    }
+  };
+
+  const handleSaveWord = () => {
+    // A failed or pending lookup has no translation worth keeping
+    if (!tooltip?.word || PLACEHOLDER_TRANSLATIONS.has(tooltip.text)) return;
+    saveToNotebook({
+      word: tooltip.word,
+      baseForm: tooltip.analysis?.baseForm || tooltip.word,
+      translation: tooltip.text,
+      sentence: getTooltipSentence(tooltip),
+      sourceTitle: textTitle,
+    });
+  };
 
-  const handleReadAloud = () => {
-    if (isSpeaking) {
-      isCancelledRef.current = true;
-      if (audioRef.current) {
-          audioRef.current.pause();
-          audioRef.current.src = ''; 
-          audioRef.current = null;
+  const handleImportVocabulary = async (entries: NewVocabularyEntry[]): Promise<number> => {
+    const knownIds = new Set(vocabulary.map(entry => entry.id));
+    let added = 0;
+    for (const input of entries) {
+      const entry = await addVocabularyEntry(input);
+      if (!knownIds.has(entry.id)) {
+        knownIds.add(entry.id);
+        added++;
       }
-      setIsSpeaking(false);
-      setSpeakingSentenceId(null);
-    } else {
-        speakSentences(0);
     }
+    setVocabulary(await getVocabulary());
+    return added;
   };
 
-  const handlePlaybackRateChange = (rate: number) => {
-    setPlaybackRate(rate);
+  const getExportWordSpeech = (word: string, options: RequestOptions) => synthesizeWord(word, speechSettings, options);
+
+  // Words exported from the current text reuse (and fill) the read-aloud cache
+  const getExportSentenceSpeech = (row: ExportRow, options: RequestOptions) =>
+    row.sentenceId !== undefined && sentencesForTTS[row.sentenceId] !== undefined
+      ? getSentenceSpeech(row.sentenceId, options)
+      : synthesizeSpeech(row.sentence, speechSettings, options);
+
+  const handleToggleWordExport = () => {
+    setWordExportRows(rows => rows || !tokenizedText ? null : collectExportRows(tokenizedText, translations, analyses, textTitle));
+  };
+
+  const handleReviewPreferencesChange = (preferences: ReviewPreferences) => {
+    setReviewPreferences(preferences);
+    saveReviewPreferences(preferences);
+  };
+
+  const handleUpdateVocabularyEntry = async (entry: VocabularyEntry) => {
+    try {
+      const updated = await updateVocabularyEntry(entry);
+      setVocabulary(prev => prev.map(e => e.id === updated.id ? updated : e));
+    } catch (error) {
+      console.error("Failed to update notebook entry:", error);
+    }
+  };
+
+  const handleDeleteVocabularyEntry = async (id: string) => {
+    try {
+      await deleteVocabularyEntry(id);
+      setVocabulary(prev => prev.filter(e => e.id !== id));
+    } catch (error) {
+      console.error("Failed to delete notebook entry:", error);
+    }
+  };
+
+  const handleSpeechSettingsChange = (changes: Partial<SpeechSettings>) => {
+    setSpeechSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveSpeechSettings(next);
+      return next;
+    });
   };
   
+  /**
+   * Looks up one part of a compound in the popover, in place of the compound.
+   */
+  const handleCompoundPartClick = async (part: CompoundPart) => {
+    if (!tooltip) return;
+    const { signal } = textRequestsRef.current;
+    const { x, y, anchorBottom, sentenceId } = tooltip;
+    const word = part.baseForm;
+    setTooltip({ x, y, anchorBottom, sentenceId, word, text: part.gloss, isAnalysisPending: true });
+    const isShown = (data: TooltipData) => Boolean(data && data.word === word && !data.occurrenceKey);
+
+    try {
+      const { translation, senses, example, analysis } = await translateWord(word, undefined, signal);
+      setTooltip(prev => isShown(prev) ? { ...prev!, text: translation, senses, example, analysis, isAnalysisPending: false } : prev);
+    } catch (error) {
+      if (signal.aborted) return;
+      setTooltip(prev => isShown(prev) ? { ...prev!, analysis: null, isAnalysisPending: false } : prev);
+    }
+  };
+
+  /**
+   * Closes the word tooltip, returning focus to its word if the focus was inside the tooltip.
+   */
+  const dismissTooltip = () => {
+    const word = tooltipWordRef.current;
+    if (word && document.activeElement?.closest('[data-word-tooltip]')) word.focus();
+    setTooltip(null);
+  };
+
+  // Playback shortcuts and Escape, while reading a text
+  shortcutHandlerRef.current = (event: KeyboardEvent) => {
+    if (!isAnalyzing || activeView !== null || isEditableTarget(event.target)) return;
+
+    if (event.key === 'Escape') {
+      // Closes the most recently opened overlay first
+      if (tooltip) dismissTooltip();
+      else if (textSelection) setTextSelection(null);
+      else if (inflectionRequest) setInflectionRequest(null);
+      else if (grammarRequest) setGrammarRequest(null);
+      else if (passageTranslation) setPassageTranslation(null);
+      return;
+    }
+
+    const action = getShortcutAction(event);
+    // Space on a focused button presses the button instead
+    if (!action || (action === 'playPause' && event.target instanceof HTMLButtonElement)) return;
+    event.preventDefault();
+    switch (action) {
+      case 'playPause':
+        if (playback.status !== 'loading') handlePlayPause();
+        break;
+      case 'previous':
+        if (isSpeaking) handleSkip(-1);
+        break;
+      case 'next':
+        if (isSpeaking) handleSkip(1);
+        break;
+      case 'stop':
+        if (isSpeaking) handleStop();
+        break;
+      case 'toggleLoop':
+        handleToggleLoop();
+        break;
+      case 'slower':
+      case 'faster':
+        handleSpeechSettingsChange({ rate: stepSpeechRate(speechSettings.rate, action === 'faster' ? 1 : -1) });
+        break;
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => shortcutHandlerRef.current(event);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleReset = () => {
-    isCancelledRef.current = true;
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.src = '';
-      audioRef.current = null;
+    // Save the latest changes, which the debounced save may not have written yet
+    if (documentId) {
+      updateDocument(documentId, { translations, analyses, sentenceTranslations, lastSentenceIndex })
+        .then(refreshDocuments)
+        .catch(error => console.warn("Could not save the document:", error));
     }
-    audioCacheRef.current.clear();
-    preloadingRef.current.clear();
+    textRequestsRef.current.abort();
+    textRequestsRef.current = new AbortController();
+    cancelSpeechRequests();
+    dispatchPlayback({ type: 'STOP' });
+    audioCacheRef.current = new Map();
+    preloadingRef.current = new Set();
+    collectedLookupsRef.current = new Set();
     setTranslations(new Map());
+    setAnalyses(new Map());
+    setSentenceTranslations(new Map());
+    setPassageTranslation(null);
+    setGrammarRequest(null);
+    setInflectionRequest(null);
+    setTextSelection(null);
+    setIsParallelView(false);
+    setIsAudioExportOpen(false);
+    setIsReportOpen(false);
+    setIsExercisesOpen(false);
+    setWordExportRows(null);
     setIsAnalyzing(false);
     setSentencesForTTS([]);
+    setTokenizedText(null);
+    setSpeakingWordStart(null);
     setHtmlContent('');
-    setIsSpeaking(false);
-    setSpeakingSentenceId(null);
+    setTextTitle('');
+    setTextSource('');
+    setDocumentId(null);
+    documentHtmlRef.current = null;
+    setLastSentenceIndex(null);
+    setResumeSentenceIndex(null);
     setTooltip(null);
     setIsBatchTranslating(false);
   };
 
+  const handleProviderChange = (id: string) => {
+    setActiveProvider(id);
+    setActiveProviderId(id);
+  };
+
+  const handleImport = (imported: ImportedText) => {
+    setHtmlContent(imported.html);
+    setTextTitle(imported.title);
+    setTextSource(imported.source);
+  };
+
   const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
     e.preventDefault();
     const clipboardData = e.clipboardData;
@@ -315,6 +1138,13 @@ const App: React.FC = () => {
         className="rich-text-input w-full h-64 overflow-y-auto bg-gray-800 border border-gray-600 rounded-lg p-4 text-lg text-gray-200 focus:ring-2 focus:ring-teal-400 focus:border-teal-400 transition resize-y shadow-lg"
         dangerouslySetInnerHTML={{ __html: htmlContent }} 
       />
+      <ImportPanel onImport={handleImport} />
+      <ProviderSelector
+        providers={getProviders()}
+        activeProviderId={activeProviderId}
+        onProviderChange={handleProviderChange}
+      />
+      <CachePanel />
       <button
         onClick={handleAnalyse}
         disabled={isBatchTranslating}
@@ -329,19 +1159,116 @@ const App: React.FC = () => {
   const renderAnalysisView = () => (
     <div className="w-full flex flex-col items-center gap-8 p-4">
       <Controls 
-        isSpeaking={isSpeaking}
-        onReadAloud={handleReadAloud}
+        playbackStatus={playback.status}
+        isLooping={playback.isLooping}
+        onPlayPause={handlePlayPause}
+        onStop={handleStop}
+        onPrevious={() => handleSkip(-1)}
+        onNext={() => handleSkip(1)}
+        onToggleLoop={handleToggleLoop}
         onReset={handleReset}
-        playbackRate={playbackRate}
-        onPlaybackRateChange={handlePlaybackRateChange}
+        speechSettings={speechSettings}
+        onSpeechSettingsChange={handleSpeechSettingsChange}
+        isParallelView={isParallelView}
+        onToggleParallelView={handleToggleParallelView}
+        isAudioExportOpen={isAudioExportOpen}
+        onToggleAudioExport={() => setIsAudioExportOpen(open => !open)}
+        isWordExportOpen={wordExportRows !== null}
+        onToggleWordExport={handleToggleWordExport}
+        isReportOpen={isReportOpen}
+        onToggleReport={() => setIsReportOpen(open => !open)}
+        isExercisesOpen={isExercisesOpen}
+        onToggleExercises={() => setIsExercisesOpen(open => !open)}
+        knownRatio={knownRatio}
       />
-      <div className="w-full max-w-3xl bg-gray-800 p-6 sm:p-8 rounded-lg shadow-xl border border-gray-700">
-          <RichTextDisplay
-            htmlContent={htmlContent}
-            onWordClick={handleWordClick}
-            speakingSentenceId={speakingSentenceId}
-          />
-      </div>
+      {wordExportRows && (
+        <VocabularyExportPanel
+          rows={wordExportRows}
+          getWordSpeech={getExportWordSpeech}
+          getSentenceSpeech={getExportSentenceSpeech}
+          defaultName={textTitle}
+          onClose={() => setWordExportRows(null)}
+        />
+      )}
+      {textStatistics && (
+        <TextReportPanel statistics={textStatistics} onClose={() => setIsReportOpen(false)} />
+      )}
+      {isExercisesOpen && tokenizedText && (
+        <ExercisePanel
+          source={{ tokenized: tokenizedText, translations, analyses, sentenceTranslations }}
+          getSpeech={getSentenceSpeech}
+          onClose={() => setIsExercisesOpen(false)}
+        />
+      )}
+      {isAudioExportOpen && tokenizedText && (
+        <AudioExportPanel
+          tokenizedText={tokenizedText}
+          getSpeech={getSentenceSpeech}
+          onClose={() => setIsAudioExportOpen(false)}
+        />
+      )}
+      {passageTranslation && (
+        <TranslationPanel
+          passage={passageTranslation}
+          onPlay={passageTranslation.sentenceId !== undefined ? () => handlePlayFromSentence(passageTranslation.sentenceId!) : undefined}
+          onExplainGrammar={() => showGrammarExplanation(passageTranslation.source)}
+          onClose={() => setPassageTranslation(null)}
+        />
+      )}
+      {grammarRequest && (
+        <GrammarPanel request={grammarRequest} onClose={() => setGrammarRequest(null)} />
+      )}
+      {inflectionRequest && (
+        <InflectionPanel request={inflectionRequest} onClose={() => setInflectionRequest(null)} />
+      )}
+      {isParallelView ? (
+        <ParallelTextView
+          sentences={sentencesForTTS}
+          sentenceTranslations={sentenceTranslations}
+          speakingSentenceId={speakingSentenceId}
+          isTranslating={isTranslatingSentences}
+          onSentenceClick={handlePlayFromSentence}
+        />
+      ) : (
+        <div className="w-full max-w-3xl bg-gray-800 p-6 sm:p-8 rounded-lg shadow-xl border border-gray-700">
+            <RichTextDisplay
+              htmlContent={htmlContent}
+              onWordClick={handleWordClick}
+              onSentenceClick={handleSentenceClick}
+              onTextSelect={handleTextSelect}
+              speakingSentenceId={speakingSentenceId}
+              speakingWordStart={speakingWordStart}
+              savedForms={savedForms}
+              getWordStatus={getTokenStatus}
+            />
+        </div>
+      )}
+      {textSelection && (
+        <div
+          onMouseDown={(e) => e.stopPropagation()}
+          className="fixed z-50 flex gap-2"
+          style={{
+            top: `${textSelection.y}px`,
+            left: `${textSelection.x}px`,
+            transform: 'translate(-50%, -100%)',
+            marginTop: '-8px',
+          }}
+        >
+          <button
+            onClick={handleTranslateSelection}
+            className="bg-teal-500 hover:bg-teal-600 text-white text-sm font-bold rounded-full py-1 px-3 shadow-lg whitespace-nowrap"
+          >
+            Translate selection
+          </button>
+          <button
+            onClick={handleExplainSelection}
+            className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold rounded-full py-1 px-3 shadow-lg whitespace-nowrap"
+          >
+            Explain grammar
+          </button>
+        </div>
+      )}
+      <div className="sr-only" role="status" aria-live="polite">{describeTooltip(tooltip)}</div>
       {tooltip && isTranslating && tooltip.text === '...' && (
         <div 
           className="fixed z-50 flex items-center bg-gray-700 text-white text-sm rounded py-1.5 px-3 shadow-lg"
@@ -355,13 +1282,77 @@ const App: React.FC = () => {
           <Spinner className="mr-2"/> Translating...
         </div>
       )}
-      {tooltip && (tooltip.text !== '...' || !isTranslating) && <Tooltip tooltipData={tooltip} />}
+      {tooltip && (tooltip.text !== '...' || !isTranslating) && (
+        <WordPopover
+          tooltipData={tooltip}
+          onSpeak={handleSpeakWord}
+          pronouncingWord={pronouncingWord}
+          onCompoundPartClick={handleCompoundPartClick}
+          onShowForms={getTooltipInflection(tooltip)}
+          onSave={PLACEHOLDER_TRANSLATIONS.has(tooltip.text) ? undefined : handleSaveWord}
+          isSaved={isTooltipWordSaved(tooltip)}
+          wordStatus={tooltip.word ? lookupWordStatus(tooltip.word, tooltip.analysis?.baseForm, wordStatuses) : undefined}
+          onStatusChange={(status) => tooltip.word && changeWordStatus(tooltip.word, tooltip.analysis?.baseForm, status)}
+        />
+      )}
     </div>
   );
 
   return (
     <main className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center font-sans">
-      {isAnalyzing ? renderAnalysisView() : renderInputView()}
+      <div className="fixed top-4 right-4 z-20 flex gap-2">
+        <button
+          onClick={() => setActiveView(view => view === 'library' ? null : 'library')}
+          aria-pressed={activeView === 'library'}
+          className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-bold py-2 px-4 rounded-full shadow-lg"
+        >
+          📚 Library ({documents.length})
+        </button>
+        <button
+          onClick={() => setActiveView(view => view === 'review' ? null : 'review')}
+          aria-pressed={activeView === 'review'}
+          className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-bold py-2 px-4 rounded-full shadow-lg"
+        >
+          🧠 Review ({dueCount} due)
+        </button>
+        <button
+          onClick={() => setActiveView(view => view === 'notebook' ? null : 'notebook')}
+          aria-pressed={activeView === 'notebook'}
+          className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-bold py-2 px-4 rounded-full shadow-lg"
+        >
+          📒 Notebook ({vocabulary.length})
+        </button>
+      </div>
+      {activeView === 'library' ? (
+        <DocumentLibrary
+          documents={documents}
+          currentDocumentId={documentId}
+          onOpen={handleOpenDocument}
+          onRename={handleRenameDocument}
+          onDelete={handleDeleteDocument}
+          onClose={() => setActiveView(null)}
+        />
+      ) : activeView === 'notebook' ? (
+        <VocabularyNotebook
+          entries={vocabulary}
+          onUpdate={handleUpdateVocabularyEntry}
+          onDelete={handleDeleteVocabularyEntry}
+          onImport={handleImportVocabulary}
+          getWordSpeech={getExportWordSpeech}
+          getSentenceSpeech={getExportSentenceSpeech}
+          onClose={() => setActiveView(null)}
+        />
+      ) : activeView === 'review' ? (
+        <ReviewSession
+          entries={vocabulary}
+          preferences={reviewPreferences}
+          onPreferencesChange={handleReviewPreferencesChange}
+          onSpeak={handleSpeakWord}
+          pronouncingWord={pronouncingWord}
+          onReviewed={refreshDueCount}
+          onClose={() => setActiveView(null)}
+        />
+      ) : isAnalyzing ? renderAnalysisView() : renderInputView()}
     </main>
   );
 };
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SynthesizedSpeech } from '../types';
+import { TokenizedText } from '../services/tokenizer';
+import { RequestOptions } from '../services/requestScheduler';
+import { createAudiobook, formatWebVtt, formatCueJson, CueFormat, DEFAULT_AUDIOBOOK_OPTIONS } from '../services/audiobookService';
+import { downloadBlob, downloadText } from '../services/downloadService';
+import Spinner from './Spinner';
+
+interface AudioExportPanelProps {
+  tokenizedText: TokenizedText;
+  /** Returns the audio of a sentence with the current speech settings; the signal cancels synthesis. */
+  getSpeech: (sentenceId: number, options: RequestOptions) => Promise<SynthesizedSpeech>;
+  /** Base name for the downloaded files. */
+  filename?: string;
+  onClose: () => void;
+}
+
+const inputClass = "w-20 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-gray-200";
+
+/**
+ * Exports the whole text as one WAV file for offline listening, with a cue file
+ * (WebVTT or JSON) giving each sentence's start and end time so players can show the text in sync.
+ */
+const AudioExportPanel: React.FC<AudioExportPanelProps> = ({ tokenizedText, getSpeech, filename = 'finnish-audiobook', onClose }) => {
+  const [sentencePauseMs, setSentencePauseMs] = useState<number>(DEFAULT_AUDIOBOOK_OPTIONS.sentencePauseMs);
+  const [paragraphPauseMs, setParagraphPauseMs] = useState<number>(DEFAULT_AUDIOBOOK_OPTIONS.paragraphPauseMs);
+  const [cueFormat, setCueFormat] = useState<CueFormat>('vtt');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the panel (or a new text replacing it) cancels an export in progress
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ done: 0, total: tokenizedText.sentences.length });
+
+    try {
+      const { wav, cues, duration } = await createAudiobook(
+        tokenizedText,
+        getSpeech,
+        { sentencePauseMs, paragraphPauseMs },
+        (done, total) => setProgress({ done, total }),
+        controller.signal
+      );
+      if (controller.signal.aborted) return;
+      downloadBlob(wav, `${filename}.wav`);
+      if (cueFormat === 'vtt') {
+        downloadText(formatWebVtt(cues), `${filename}.vtt`, 'text/vtt');
+      } else {
+        downloadText(formatCueJson(cues, duration), `${filename}.json`, 'application/json');
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Audiobook export failed:", err);
+        setError(err instanceof Error ? err.message : 'Export failed.');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  return (
+    <div className="w-full max-w-3xl bg-gray-800 p-4 rounded-lg shadow-xl border border-teal-700 text-sm text-gray-300">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold uppercase tracking-wide text-teal-300">Export audio</h2>
+        <button
+          onClick={() => { handleCancel(); onClose(); }}
+          aria-label="Close audio export"
+          className="text-gray-400 hover:text-white text-lg leading-none px-2"
+        >
+          ×
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          Pause between sentences
+          <input
+            type="number"
+            min="0"
+            step="100"
+            value={sentencePauseMs}
+            onChange={(e) => setSentencePauseMs(Math.max(0, Number(e.target.value)))}
+            className={inputClass}
+          />
+          ms
+        </label>
+        <label className="flex items-center gap-2">
+          Between paragraphs
+          <input
+            type="number"
+            min="0"
+            step="100"
+            value={paragraphPauseMs}
+            onChange={(e) => setParagraphPauseMs(Math.max(0, Number(e.target.value)))}
+            className={inputClass}
+          />
+          ms
+        </label>
+        <label className="flex items-center gap-2">
+          Cues
+          <select
+            value={cueFormat}
+            onChange={(e) => setCueFormat(e.target.value as CueFormat)}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-gray-200"
+          >
+            <option value="vtt">WebVTT</option>
+            <option value="json">JSON</option>
+          </select>
+        </label>
+        {progress ? (
+          <div className="flex items-center gap-3 ml-auto">
+            <Spinner className="mr-1" />
+            Synthesizing {progress.done} / {progress.total}
+            <button onClick={handleCancel} className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-full">
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleExport}
+            className="ml-auto bg-teal-500 hover:bg-teal-600 text-white font-bold py-1 px-4 rounded-full"
+          >
+            Export
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-2 text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default AudioExportPanel;
@@ -0,0 +1,67 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { getCacheStats, clearCache, exportCache, CacheStats } from '../services/translationCache';
+import { downloadText } from '../services/downloadService';
+
+const CachePanel: React.FC = () => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+
+  const refreshStats = useCallback(async () => {
+    setStats(await getCacheStats());
+  }, []);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats]);
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete all cached translations?')) return;
+    setIsBusy(true);
+    try {
+      await clearCache();
+    } catch (error) {
+      console.error("Failed to clear translation cache:", error);
+    } finally {
+      setIsBusy(false);
+      refreshStats();
+    }
+  };
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      downloadText(await exportCache(), 'finnish-translation-cache.json', 'application/json');
+    } catch (error) {
+      console.error("Failed to export translation cache:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-wrap items-center gap-3 text-sm text-gray-300">
+      <span className="font-medium">Cache</span>
+      <span className="text-gray-400">
+        {stats
+          ? `${stats.entryCount} words stored · ${stats.hits} hits / ${stats.misses} misses this session`
+          : 'Loading...'}
+      </span>
+      <button
+        onClick={handleExport}
+        disabled={isBusy}
+        className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-full disabled:opacity-50"
+      >
+        Export
+      </button>
+      <button
+        onClick={handleClear}
+        disabled={isBusy}
+        className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-full disabled:opacity-50"
+      >
+        Clear
+      </button>
+    </div>
+  );
+};
+
+export default CachePanel;
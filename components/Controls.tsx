@@ -1,12 +1,33 @@
-
 import React from 'react';
+import { SpeechSettings, RateMode } from '../types';
+import { PlaybackStatus } from '../services/playbackMachine';
+import { TTS_VOICES, SPEECH_STYLE_PRESETS, MIN_SPEECH_RATE, MAX_SPEECH_RATE, SPEECH_RATE_STEP } from '../services/speechSettings';
+import { KEYBOARD_SHORTCUTS, getAriaKeyShortcuts } from '../services/keyboardShortcuts';
+import Spinner from './Spinner';
 
 interface ControlsProps {
-  isSpeaking: boolean;
-  playbackRate: number;
-  onReadAloud: () => void;
+  playbackStatus: PlaybackStatus;
+  isLooping: boolean;
+  speechSettings: SpeechSettings;
+  onPlayPause: () => void;
+  onStop: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onToggleLoop: () => void;
   onReset: () => void;
-  onPlaybackRateChange: (rate: number) => void;
+  onSpeechSettingsChange: (changes: Partial<SpeechSettings>) => void;
+  isParallelView: boolean;
+  onToggleParallelView: () => void;
+  isAudioExportOpen: boolean;
+  onToggleAudioExport: () => void;
+  isWordExportOpen: boolean;
+  onToggleWordExport: () => void;
+  isReportOpen: boolean;
+  onToggleReport: () => void;
+  isExercisesOpen: boolean;
+  onToggleExercises: () => void;
+  /** Share of the text's running words the reader knows, or null if unknown. */
+  knownRatio: number | null;
 }
 
 const ReadAloudIcon: React.FC = () => (
@@ -16,47 +37,229 @@ const ReadAloudIcon: React.FC = () => (
     </svg>
 );
 
-const StopIcon: React.FC = () => (
+const PauseIcon: React.FC = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
         <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1zm4 0a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
     </svg>
 );
 
+const StopIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
+    </svg>
+);
+
+const iconButtonClass = "flex items-center justify-center bg-gray-600 hover:bg-gray-500 text-white font-bold h-9 w-9 rounded-full disabled:opacity-40 disabled:cursor-not-allowed";
+
 const Controls: React.FC<ControlsProps> = ({
-  isSpeaking,
-  onReadAloud,
+  playbackStatus,
+  isLooping,
+  onPlayPause,
+  onStop,
+  onPrevious,
+  onNext,
+  onToggleLoop,
   onReset,
-  playbackRate,
-  onPlaybackRateChange,
+  speechSettings,
+  onSpeechSettingsChange,
+  isParallelView,
+  onToggleParallelView,
+  isAudioExportOpen,
+  onToggleAudioExport,
+  isWordExportOpen,
+  onToggleWordExport,
+  isReportOpen,
+  onToggleReport,
+  isExercisesOpen,
+  onToggleExercises,
+  knownRatio,
 }) => {
+  const isIdle = playbackStatus === 'idle';
+  const isLoading = playbackStatus === 'loading';
+
   return (
-    <div className="w-full max-w-3xl bg-gray-800/50 backdrop-blur-sm p-4 rounded-lg shadow-xl flex items-center justify-start gap-4 sticky top-4 z-10 border border-gray-700">
-        <button
-          onClick={onReadAloud}
-          className="flex items-center justify-center bg-teal-500 hover:bg-teal-600 text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105"
-        >
-          {isSpeaking ? <StopIcon/> : <ReadAloudIcon/>}
-          {isSpeaking ? 'Stop' : 'Read Aloud'}
-        </button>
+    <div className="w-full max-w-3xl bg-gray-800/50 backdrop-blur-sm p-4 rounded-lg shadow-xl flex flex-wrap items-center justify-start gap-4 sticky top-4 z-10 border border-gray-700">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onPrevious}
+            disabled={isIdle}
+            aria-label="Previous sentence"
+            aria-keyshortcuts={getAriaKeyShortcuts('previous')}
+            title="Previous sentence (P)"
+            className={iconButtonClass}
+          >
+            ⏮
+          </button>
+          <button
+            onClick={onPlayPause}
+            disabled={isLoading}
+            aria-keyshortcuts={getAriaKeyShortcuts('playPause')}
+            title="Read aloud / pause (Space)"
+            className="flex items-center justify-center bg-teal-500 hover:bg-teal-600 text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105 disabled:hover:scale-100"
+          >
+            {isLoading ? <Spinner className="mr-2" /> : playbackStatus === 'playing' ? <PauseIcon/> : <ReadAloudIcon/>}
+            {isIdle ? 'Read Aloud' : isLoading ? 'Loading...' : playbackStatus === 'playing' ? 'Pause' : 'Resume'}
+          </button>
+          <button
+            onClick={onNext}
+            disabled={isIdle}
+            aria-label="Next sentence"
+            aria-keyshortcuts={getAriaKeyShortcuts('next')}
+            title="Next sentence (N)"
+            className={iconButtonClass}
+          >
+            ⏭
+          </button>
+          <button
+            onClick={onStop}
+            disabled={isIdle}
+            aria-label="Stop"
+            aria-keyshortcuts={getAriaKeyShortcuts('stop')}
+            title="Stop (S)"
+            className={iconButtonClass}
+          >
+            <StopIcon/>
+          </button>
+          <button
+            onClick={onToggleLoop}
+            aria-pressed={isLooping}
+            aria-label="Loop sentence"
+            aria-keyshortcuts={getAriaKeyShortcuts('toggleLoop')}
+            title="Repeat the current sentence (L)"
+            className={`${iconButtonClass} ${isLooping ? '!bg-teal-700 hover:!bg-teal-600' : ''}`}
+          >
+            🔁
+          </button>
+        </div>
         <button
             onClick={onReset}
             className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105"
         >
             New Text
         </button>
+        <button
+            onClick={onToggleParallelView}
+            aria-pressed={isParallelView}
+            className={`${isParallelView ? 'bg-teal-700 hover:bg-teal-600' : 'bg-gray-600 hover:bg-gray-500'} text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105`}
+        >
+            Side by Side
+        </button>
+        <button
+            onClick={onToggleAudioExport}
+            aria-pressed={isAudioExportOpen}
+            className={`${isAudioExportOpen ? 'bg-teal-700 hover:bg-teal-600' : 'bg-gray-600 hover:bg-gray-500'} text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105`}
+        >
+            Export Audio
+        </button>
+        <button
+            onClick={onToggleWordExport}
+            aria-pressed={isWordExportOpen}
+            className={`${isWordExportOpen ? 'bg-teal-700 hover:bg-teal-600' : 'bg-gray-600 hover:bg-gray-500'} text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105`}
+        >
+            Export Words
+        </button>
+        <button
+            onClick={onToggleReport}
+            aria-pressed={isReportOpen}
+            className={`${isReportOpen ? 'bg-teal-700 hover:bg-teal-600' : 'bg-gray-600 hover:bg-gray-500'} text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105`}
+        >
+            Report
+        </button>
+        <button
+            onClick={onToggleExercises}
+            aria-pressed={isExercisesOpen}
+            className={`${isExercisesOpen ? 'bg-teal-700 hover:bg-teal-600' : 'bg-gray-600 hover:bg-gray-500'} text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105`}
+        >
+            Exercises
+        </button>
+        {knownRatio !== null && (
+            <span className="text-sm text-gray-300" title="Share of running words marked as known (Alt-click a word to change its status)">
+                Known <span className="font-mono text-teal-300">{Math.round(knownRatio * 100)}%</span>
+            </span>
+        )}
         <div className="flex items-center gap-3 ml-auto">
-            <span className="text-sm font-medium text-gray-300">Speed</span>
+            <label htmlFor="playback-speed" className="text-sm font-medium text-gray-300">Speed</label>
             <input
                 id="playback-speed"
                 type="range"
-                min="0.5"
-                max="2"
-                step="0.1"
-                value={playbackRate}
-                onChange={(e) => onPlaybackRateChange(parseFloat(e.target.value))}
+                min={MIN_SPEECH_RATE}
+                max={MAX_SPEECH_RATE}
+                step={SPEECH_RATE_STEP}
+                value={speechSettings.rate}
+                aria-valuetext={`${speechSettings.rate.toFixed(1)} times`}
+                aria-keyshortcuts={`${getAriaKeyShortcuts('slower')} ${getAriaKeyShortcuts('faster')}`}
+                title="Speed (- and + keys)"
+                onChange={(e) => onSpeechSettingsChange({ rate: parseFloat(e.target.value) })}
                 className="w-32 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-teal-500"
             />
-            <span className="text-sm font-mono text-gray-200 w-10 text-center">{playbackRate.toFixed(1)}x</span>
+            <span className="text-sm font-mono text-gray-200 w-10 text-center">{speechSettings.rate.toFixed(1)}x</span>
+        </div>
+        <div className="w-full flex flex-wrap items-center gap-3 text-sm text-gray-300">
+            <label className="flex items-center gap-2">
+                Voice
+                <select
+                    value={speechSettings.voice}
+                    onChange={(e) => onSpeechSettingsChange({ voice: e.target.value })}
+                    className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-gray-200"
+                >
+                    {TTS_VOICES.map(({ name, description }) => (
+                        <option key={name} value={name}>{name} ({description})</option>
+                    ))}
+                </select>
+            </label>
+            <label className="flex items-center gap-2 flex-1 min-w-[12rem]">
+                Style
+                {/* Uncontrolled, and committed on blur or Enter, so a half-typed style is never synthesized */}
+                <input
+                    key={speechSettings.style}
+                    type="text"
+                    list="speech-style-presets"
+                    defaultValue={speechSettings.style}
+                    placeholder="Natural"
+                    onBlur={(e) => onSpeechSettingsChange({ style: e.target.value.trim() })}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                    className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-gray-200"
+                />
+                <datalist id="speech-style-presets">
+                    {SPEECH_STYLE_PRESETS.map(style => <option key={style} value={style} />)}
+                </datalist>
+            </label>
+            <label className="flex items-center gap-2" title="Synthesizing at the chosen speed sounds natural; stretching reuses normal-speed audio but distorts at low speeds">
+                Speed by
+                <select
+                    value={speechSettings.rateMode}
+                    onChange={(e) => onSpeechSettingsChange({ rateMode: e.target.value as RateMode })}
+                    className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-gray-200"
+                >
+                    <option value="synthesized">Synthesizing</option>
+                    <option value="stretched">Stretching playback</option>
+                </select>
+            </label>
+            <details className="relative">
+                <summary className="cursor-pointer text-gray-400 hover:text-gray-200">Keyboard shortcuts</summary>
+                <dl className="absolute right-0 mt-2 z-20 w-72 bg-gray-800 border border-gray-600 rounded-lg p-3 shadow-xl grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                    <dt className="font-mono text-teal-300">← →</dt>
+                    <dd>Previous / next word</dd>
+                    <dt className="font-mono text-teal-300">↑ ↓</dt>
+                    <dd>Previous / next sentence</dd>
+                    <dt className="font-mono text-teal-300">Home End</dt>
+                    <dd>Start / end of the sentence</dd>
+                    <dt className="font-mono text-teal-300">Enter</dt>
+                    <dd>Translate the word</dd>
+                    <dt className="font-mono text-teal-300">Shift+Enter</dt>
+                    <dd>Translate the sentence</dd>
+                    <dt className="font-mono text-teal-300">1–4</dt>
+                    <dd>Set the word's status</dd>
+                    <dt className="font-mono text-teal-300">Esc</dt>
+                    <dd>Close the translation</dd>
+                    {KEYBOARD_SHORTCUTS.map(({ action, ariaKeys, label }) => (
+                        <React.Fragment key={action}>
+                            <dt className="font-mono text-teal-300">{ariaKeys}</dt>
+                            <dd>{label}</dd>
+                        </React.Fragment>
+                    ))}
+                </dl>
+            </details>
         </div>
     </div>
   );
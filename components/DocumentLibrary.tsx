@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { LibraryDocumentSummary } from '../types';
+import { matchesDocumentQuery } from '../services/documentLibrary';
+
+interface DocumentLibraryProps {
+  documents: LibraryDocumentSummary[];
+  /** The document open in the analysis view, if any. */
+  currentDocumentId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LENGTH = 160;
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-gray-200";
+
+/**
+ * Lists the saved texts: search by title, source or content, and reopen, rename or delete them.
+ */
+const DocumentLibrary: React.FC<DocumentLibraryProps> = ({
+  documents,
+  currentDocumentId,
+  onOpen,
+  onRename,
+  onDelete,
+  onClose,
+}) => {
+  const [query, setQuery] = useState<string>('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState<string>('');
+
+  const visibleDocuments = documents.filter(document => matchesDocumentQuery(document, query.trim()));
+
+  const startRenaming = (document: LibraryDocumentSummary) => {
+    setRenamingId(document.id);
+    setDraftTitle(document.title);
+  };
+
+  const saveTitle = (document: LibraryDocumentSummary) => {
+    const title = draftTitle.trim();
+    if (title && title !== document.title) onRename(document.id, title);
+    setRenamingId(null);
+  };
+
+  const handleDelete = (document: LibraryDocumentSummary) => {
+    if (window.confirm(`Delete "${document.title}" from the library?`)) onDelete(document.id);
+  };
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col gap-4 p-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-teal-300">Library</h1>
+        <button
+          onClick={onClose}
+          className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-full"
+        >
+          Back
+        </button>
+      </div>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search titles, sources and texts..."
+        className="w-full bg-gray-800 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:ring-2 focus:ring-teal-400"
+      />
+      <p className="text-sm text-gray-400">
+        {visibleDocuments.length} of {documents.length} {documents.length === 1 ? 'text' : 'texts'}
+      </p>
+      {documents.length === 0 && (
+        <p className="text-gray-400">Analysed texts are saved here, with their translations, so you can come back to them.</p>
+      )}
+      <ul className="flex flex-col gap-3">
+        {visibleDocuments.map(document => (
+          <li key={document.id} className="bg-gray-800 border border-gray-700 rounded-lg p-4 text-left">
+            <div className="flex gap-4">
+              <div className="flex-1 min-w-0">
+                {renamingId === document.id ? (
+                  <input
+                    value={draftTitle}
+                    autoFocus
+                    aria-label="Title"
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onBlur={() => saveTitle(document)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveTitle(document);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className={inputClass}
+                  />
+                ) : (
+                  <button
+                    onClick={() => onOpen(document.id)}
+                    className="text-xl font-semibold text-white hover:text-teal-300 text-left"
+                  >
+                    {document.title}
+                  </button>
+                )}
+                <p className="mt-1 text-gray-300 truncate">
+                  {document.text.length > PREVIEW_LENGTH ? `${document.text.slice(0, PREVIEW_LENGTH)}…` : document.text}
+                </p>
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                  <span>{document.source}</span>
+                  <span>·</span>
+                  <span>{new Date(document.createdAt).toLocaleDateString()}</span>
+                  <span>·</span>
+                  <span>{document.translatedCount} words translated</span>
+                  {document.lastSentenceIndex !== null && (
+                    <>
+                      <span>·</span>
+                      <span>Read aloud to sentence {document.lastSentenceIndex + 1} of {document.sentenceCount}</span>
+                    </>
+                  )}
+                  {document.id === currentDocumentId && (
+                    <span className="bg-teal-800 text-teal-200 py-0.5 px-2 rounded-full">Open</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-col gap-2 text-sm">
+                <button onClick={() => onOpen(document.id)} className="text-teal-300 hover:text-white">Open</button>
+                <button onClick={() => startRenaming(document)} className="text-teal-300 hover:text-white">Rename</button>
+                <button onClick={() => handleDelete(document)} className="text-red-400 hover:text-red-300">Delete</button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DocumentLibrary;
@@ -0,0 +1,391 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Exercise, ExerciseResult, ExerciseType, SynthesizedSpeech } from '../types';
+import {
+  generateExercises, isGapAnswerCorrect, isOrderCorrect, scoreDictation, summarizeResults, describeCase,
+  EXERCISE_TYPES, EXERCISE_TYPE_LABELS, DiffSegment, ExerciseSource,
+} from '../services/exerciseService';
+import { createSpeechUrl } from '../services/ttsService';
+import { RequestOptions } from '../services/requestScheduler';
+import Spinner from './Spinner';
+
+interface ExercisePanelProps {
+  /** The analysed text and its lookups; exercises are generated from it when the panel opens. */
+  source: ExerciseSource;
+  /** Returns the audio of a sentence with the current speech settings, for dictation. */
+  getSpeech: (sentenceId: number, options: RequestOptions) => Promise<SynthesizedSpeech>;
+  onClose: () => void;
+}
+
+const DIFF_CLASSES: Record<DiffSegment['kind'], string> = {
+  equal: 'text-teal-200',
+  missing: 'text-red-400 underline decoration-dotted',
+  extra: 'text-amber-300 line-through',
+};
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+const Gap: React.FC<{ before: string; after: string; children: React.ReactNode }> = ({ before, after, children }) => (
+  <p className="text-xl text-white leading-relaxed">
+    {before}{children}{after}
+  </p>
+);
+
+/**
+ * Practice generated from the current text: cloze gaps, case-ending drills, word order and
+ * dictation with a character-level diff. Answers are checked one exercise at a time and
+ * scored per exercise type.
+ */
+const ExercisePanel: React.FC<ExercisePanelProps> = ({ source, getSpeech, onClose }) => {
+  const [enabledTypes, setEnabledTypes] = useState<ExerciseType[]>(EXERCISE_TYPES);
+  const [exercises, setExercises] = useState<Exercise[]>(() => generateExercises(source));
+  const [index, setIndex] = useState<number>(0);
+  const [results, setResults] = useState<ExerciseResult[]>([]);
+  const [answer, setAnswer] = useState<string>('');
+  // Indices into the shuffled words of a reordering exercise, in the order picked
+  const [order, setOrder] = useState<number[]>([]);
+  const [result, setResult] = useState<ExerciseResult | null>(null);
+  const [segments, setSegments] = useState<DiffSegment[] | null>(null);
+  const [isLoadingAudio, setIsLoadingAudio] = useState<boolean>(false);
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const audioUrlRef = useRef<string | null>(null);
+  // Aborted when playback stops, so a sentence still being synthesized never plays late
+  const playAbortRef = useRef<AbortController | null>(null);
+
+  const session = exercises.filter(exercise => enabledTypes.includes(exercise.type));
+  const exercise = session[index];
+  const summary = summarizeResults(results);
+
+  const resetAnswer = () => {
+    setAnswer('');
+    setOrder([]);
+    setResult(null);
+    setSegments(null);
+    setAudioError(null);
+  };
+
+  const restart = (types: ExerciseType[]) => {
+    setEnabledTypes(types);
+    setExercises(generateExercises(source));
+    setIndex(0);
+    setResults([]);
+    resetAnswer();
+  };
+
+  const toggleType = (type: ExerciseType) =>
+    restart(enabledTypes.includes(type) ? enabledTypes.filter(t => t !== type) : EXERCISE_TYPES.filter(t => t === type || enabledTypes.includes(t)));
+
+  const stopAudio = () => {
+    playAbortRef.current?.abort();
+    playAbortRef.current = null;
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
+    audioUrlRef.current = null;
+    setIsLoadingAudio(false);
+  };
+
+  useEffect(() => stopAudio, []);
+
+  const playSentence = async (sentenceId: number) => {
+    stopAudio();
+    const controller = new AbortController();
+    playAbortRef.current = controller;
+    setIsLoadingAudio(true);
+    setAudioError(null);
+    try {
+      const speech = await getSpeech(sentenceId, { signal: controller.signal });
+      // Stopped, closed or replaced by the next exercise while synthesizing
+      if (controller.signal.aborted) return;
+      const audioUrl = createSpeechUrl(speech);
+      const audio = new Audio(audioUrl);
+      audio.onended = audio.onerror = () => URL.revokeObjectURL(audioUrl);
+      audioRef.current = audio;
+      audioUrlRef.current = audioUrl;
+      await audio.play();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Failed to play the dictation sentence:", error);
+      setAudioError(error instanceof Error ? error.message : 'The sentence could not be played.');
+    } finally {
+      if (playAbortRef.current === controller) {
+        playAbortRef.current = null;
+        setIsLoadingAudio(false);
+      }
+    }
+  };
+
+  // Dictations start by playing their sentence
+  useEffect(() => {
+    if (exercise?.type === 'dictation') playSentence(exercise.sentenceId);
+  }, [exercise?.id]);
+
+  const record = (correct: boolean, score = correct ? 1 : 0) => {
+    if (!exercise) return;
+    const next = { exerciseId: exercise.id, type: exercise.type, correct, score };
+    setResult(next);
+    setResults(prev => [...prev, next]);
+  };
+
+  const handleCheck = (choice?: string) => {
+    if (!exercise || result) return;
+    switch (exercise.type) {
+      case 'cloze':
+        record(isGapAnswerCorrect(exercise, answer));
+        break;
+      case 'case':
+        setAnswer(choice ?? answer);
+        record(isGapAnswerCorrect(exercise, choice ?? answer));
+        break;
+      case 'reorder':
+        record(isOrderCorrect(exercise, order.map(i => exercise.shuffled[i])));
+        break;
+      case 'dictation': {
+        const scored = scoreDictation(exercise, answer);
+        setSegments(scored.segments);
+        record(scored.correct, scored.score);
+        break;
+      }
+    }
+  };
+
+  const handleNext = () => {
+    stopAudio();
+    resetAnswer();
+    setIndex(i => i + 1);
+  };
+
+  const renderCorrection = () => {
+    if (!exercise || !result) return null;
+    const solution = exercise.type === 'reorder' ? exercise.words.join(' ')
+      : exercise.type === 'dictation' ? exercise.sentence
+      : exercise.answer;
+    return (
+      <div className="flex flex-col items-center gap-2">
+        <p className={result.correct ? 'text-teal-300' : 'text-red-400'}>
+          {result.correct ? 'Correct!' : exercise.type === 'dictation' ? `${formatPercent(result.score)} of the characters match` : `The answer is "${solution}"`}
+        </p>
+        {exercise.type === 'case' && (
+          <p className="text-gray-300">{exercise.baseForm} → {describeCase(exercise)}</p>
+        )}
+        {segments && (
+          <>
+            <p className="text-lg font-mono" aria-label="Your dictation compared with the sentence">
+              {segments.map((segment, i) => (
+                <span key={i} className={DIFF_CLASSES[segment.kind]}>{segment.text}</span>
+              ))}
+            </p>
+            <p className="text-xs text-gray-500">
+              <span className={DIFF_CLASSES.missing}>missed</span> · <span className={DIFF_CLASSES.extra}>not in the sentence</span>
+            </p>
+            {!result.correct && <p className="text-gray-300 italic">{solution}</p>}
+          </>
+        )}
+        <button onClick={handleNext} autoFocus className="bg-teal-500 hover:bg-teal-600 text-white font-bold py-2 px-6 rounded-full">
+          {index + 1 < session.length ? 'Next' : 'See results'}
+        </button>
+      </div>
+    );
+  };
+
+  const renderExercise = (exercise: Exercise) => {
+    switch (exercise.type) {
+      case 'cloze':
+        return (
+          <form onSubmit={(e) => { e.preventDefault(); handleCheck(); }} className="flex flex-col items-center gap-3">
+            <Gap before={exercise.before} after={exercise.after}>
+              <input
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                disabled={result !== null}
+                autoFocus
+                aria-label="Missing word"
+                className="mx-1 w-40 bg-gray-700 border-b-2 border-teal-400 px-2 py-0.5 text-teal-200 text-center"
+              />
+            </Gap>
+            {exercise.hint && <p className="text-gray-400">({exercise.hint})</p>}
+            {!result && (
+              <button type="submit" className="bg-teal-500 hover:bg-teal-600 text-white font-bold py-2 px-4 rounded-full">
+                Check
+              </button>
+            )}
+          </form>
+        );
+      case 'case':
+        return (
+          <div className="flex flex-col items-center gap-3">
+            <Gap before={exercise.before} after={exercise.after}>
+              <span className="inline-block min-w-[5rem] mx-1 border-b-2 border-teal-400 text-teal-200">{result ? exercise.answer : ' '}</span>
+            </Gap>
+            <p className="text-gray-400">Which form of <span className="text-white">{exercise.baseForm}</span> fits?</p>
+            <div className="flex flex-wrap justify-center gap-2" role="group" aria-label="Forms">
+              {exercise.options.map(option => (
+                <button
+                  key={option}
+                  onClick={() => handleCheck(option)}
+                  disabled={result !== null}
+                  className={`${result && option.toLowerCase() === exercise.answer.toLowerCase() ? 'bg-teal-700'
+                    : result && option === answer ? 'bg-red-800' : 'bg-gray-700 hover:bg-gray-600'} text-gray-100 py-1 px-4 rounded-full`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      case 'reorder':
+        return (
+          <div className="flex flex-col items-center gap-3">
+            {exercise.translation && <p className="text-gray-400">“{exercise.translation}”</p>}
+            <div className="min-h-[2.5rem] flex flex-wrap justify-center gap-2 border-b border-gray-600 pb-2 w-full" aria-label="Your sentence">
+              {order.map((wordIndex, position) => (
+                <button
+                  key={wordIndex}
+                  onClick={() => setOrder(prev => prev.filter((_, i) => i !== position))}
+                  disabled={result !== null}
+                  className="bg-teal-800 hover:bg-teal-700 text-white text-lg py-1 px-3 rounded"
+                >
+                  {exercise.shuffled[wordIndex]}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap justify-center gap-2" aria-label="Words to place">
+              {exercise.shuffled.map((word, wordIndex) => !order.includes(wordIndex) && (
+                <button
+                  key={wordIndex}
+                  onClick={() => setOrder(prev => [...prev, wordIndex])}
+                  disabled={result !== null}
+                  className="bg-gray-700 hover:bg-gray-600 text-gray-100 text-lg py-1 px-3 rounded"
+                >
+                  {word}
+                </button>
+              ))}
+            </div>
+            {!result && (
+              <button
+                onClick={() => handleCheck()}
+                disabled={order.length < exercise.shuffled.length}
+                className="bg-teal-500 hover:bg-teal-600 text-white font-bold py-2 px-4 rounded-full disabled:opacity-50"
+              >
+                Check
+              </button>
+            )}
+          </div>
+        );
+      case 'dictation':
+        return (
+          <form onSubmit={(e) => { e.preventDefault(); handleCheck(); }} className="flex flex-col items-center gap-3 w-full">
+            <button
+              type="button"
+              onClick={() => playSentence(exercise.sentenceId)}
+              disabled={isLoadingAudio}
+              className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white text-lg py-2 px-5 rounded-full"
+            >
+              {isLoadingAudio ? <Spinner /> : <span aria-hidden="true">🔊</span>} Play again
+            </button>
+            {audioError && <p className="text-red-400 text-sm">{audioError}</p>}
+            <textarea
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleCheck();
+                }
+              }}
+              disabled={result !== null}
+              rows={2}
+              aria-label="Type the sentence you hear"
+              placeholder="Type the sentence you hear"
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-gray-200 text-lg"
+            />
+            {!result && (
+              <button type="submit" className="bg-teal-500 hover:bg-teal-600 text-white font-bold py-2 px-4 rounded-full">
+                Check
+              </button>
+            )}
+          </form>
+        );
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl bg-gray-800 p-4 rounded-lg shadow-xl border border-teal-700 text-sm text-gray-300">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold uppercase tracking-wide text-teal-300">Exercises</h2>
+        <div className="flex items-center gap-2">
+          <button onClick={() => restart(enabledTypes)} className="text-sm text-teal-300 hover:text-white px-2">
+            New set
+          </button>
+          <button
+            onClick={onClose}
+            aria-label="Close exercises"
+            className="text-gray-400 hover:text-white text-lg leading-none px-2"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {EXERCISE_TYPES.map(type => {
+          const available = exercises.filter(e => e.type === type).length;
+          return (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              aria-pressed={enabledTypes.includes(type)}
+              title={available === 0 ? 'The text has nothing to make this exercise from yet' : undefined}
+              className={`${enabledTypes.includes(type) ? 'bg-teal-700' : 'bg-gray-700 hover:bg-gray-600'} text-gray-200 py-0.5 px-3 rounded-full`}
+            >
+              {EXERCISE_TYPE_LABELS[type]} {summary[type].attempted > 0 ? `${summary[type].correct}/${summary[type].attempted}` : `(${available})`}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="bg-gray-900/50 rounded-lg p-6 min-h-[12rem] flex flex-col items-center justify-center gap-4 text-center" aria-live="polite">
+        {session.length === 0 ? (
+          <p className="text-gray-400">
+            No exercises of these types could be made from this text. Case drills need analysed nouns: click a few words first.
+          </p>
+        ) : exercise ? (
+          <>
+            <span className="text-xs uppercase tracking-wide text-gray-500">
+              {EXERCISE_TYPE_LABELS[exercise.type]} · {index + 1} of {session.length}
+            </span>
+            {renderExercise(exercise)}
+            {renderCorrection()}
+          </>
+        ) : (
+          <>
+            <h3 className="text-lg font-semibold text-white">Results</h3>
+            <table className="text-left">
+              <thead>
+                <tr className="text-xs uppercase tracking-wide text-gray-500">
+                  <th scope="col" className="pr-6 pb-1 font-normal">Exercise</th>
+                  <th scope="col" className="pr-6 pb-1 font-normal">Correct</th>
+                  <th scope="col" className="pb-1 font-normal">Score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {EXERCISE_TYPES.filter(type => summary[type].attempted > 0).map(type => (
+                  <tr key={type}>
+                    <th scope="row" className="pr-6 py-0.5 font-normal text-gray-300">{EXERCISE_TYPE_LABELS[type]}</th>
+                    <td className="pr-6 py-0.5 text-gray-100">{summary[type].correct} / {summary[type].attempted}</td>
+                    <td className="py-0.5 text-teal-200">{formatPercent(summary[type].score)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button onClick={() => restart(enabledTypes)} className="bg-teal-500 hover:bg-teal-600 text-white font-bold py-2 px-6 rounded-full">
+              Practise again
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExercisePanel;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { GrammarExplanation } from '../types';
+import Spinner from './Spinner';
+
+export type GrammarRequest = {
+  sentence: string;
+  explanation: GrammarExplanation | null;
+  error?: string;
+};
+
+interface GrammarPanelProps {
+  request: GrammarRequest;
+  onClose: () => void;
+}
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="mt-4">
+    <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{title}</h3>
+    <ul className="flex flex-col gap-2">{children}</ul>
+  </section>
+);
+
+/**
+ * A side panel explaining how a sentence is built: its clauses, case choices,
+ * verb government and notable constructions.
+ */
+const GrammarPanel: React.FC<GrammarPanelProps> = ({ request, onClose }) => {
+  const { sentence, explanation, error } = request;
+
+  return (
+    <aside
+      aria-label="Grammar explanation"
+      className="fixed top-0 right-0 z-30 h-full w-full sm:w-96 overflow-y-auto bg-gray-800 border-l border-teal-700 shadow-2xl p-4 text-sm text-gray-300 text-left"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="font-semibold uppercase tracking-wide text-teal-300">Grammar</h2>
+        <button
+          onClick={onClose}
+          aria-label="Close grammar explanation"
+          className="text-gray-400 hover:text-white text-lg leading-none px-2"
+        >
+          ×
+        </button>
+      </div>
+      <p className="text-base text-white italic">{sentence}</p>
+      {error ? (
+        <p className="mt-4 text-red-400">{error}</p>
+      ) : explanation === null ? (
+        <div className="mt-4 flex items-center text-gray-400">
+          <Spinner className="mr-2" /> Analysing the sentence...
+        </div>
+      ) : (
+        <>
+          {explanation.translation && <p className="mt-1 text-teal-200">“{explanation.translation}”</p>}
+          {explanation.clauses.length > 0 && (
+            <Section title="Clauses">
+              {explanation.clauses.map((clause, i) => (
+                <li key={i}>
+                  <span className="text-white">{clause.text}</span> <span className="text-gray-500">({clause.type})</span>
+                  <p>{clause.explanation}</p>
+                </li>
+              ))}
+            </Section>
+          )}
+          {explanation.caseChoices.length > 0 && (
+            <Section title="Case choices">
+              {explanation.caseChoices.map((choice, i) => (
+                <li key={i}>
+                  <span className="text-white">{choice.phrase}</span> <span className="text-teal-300">{choice.grammaticalCase}</span>
+                  <p>{choice.reason}</p>
+                </li>
+              ))}
+            </Section>
+          )}
+          {explanation.government.length > 0 && (
+            <Section title="Verb government">
+              {explanation.government.map((item, i) => (
+                <li key={i}>
+                  <span className="text-teal-300">{item.pattern}</span> <span className="text-white">{item.example}</span>
+                  <p>{item.explanation}</p>
+                </li>
+              ))}
+            </Section>
+          )}
+          {explanation.constructions.length > 0 && (
+            <Section title="Constructions">
+              {explanation.constructions.map((construction, i) => (
+                <li key={i}>
+                  <span className="text-teal-300">{construction.name}</span> <span className="text-white">{construction.example}</span>
+                  <p>{construction.explanation}</p>
+                </li>
+              ))}
+            </Section>
+          )}
+          {explanation.notes && <p className="mt-4 text-gray-400">{explanation.notes}</p>}
+        </>
+      )}
+    </aside>
+  );
+};
+
+export default GrammarPanel;
@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import { importFile, importFromUrl, ImportedText, SubtitleMode, IMPORT_FILE_TYPES } from '../services/importService';
+import Spinner from './Spinner';
+
+interface ImportPanelProps {
+  onImport: (text: ImportedText) => void;
+}
+
+/**
+ * Brings a text into the input view from a file (text, Markdown, HTML, EPUB or subtitles)
+ * or from the article on a web page.
+ */
+const ImportPanel: React.FC<ImportPanelProps> = ({ onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [url, setUrl] = useState<string>('');
+  const [subtitleMode, setSubtitleMode] = useState<SubtitleMode>('merge');
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>('');
+
+  const runImport = async (load: () => Promise<ImportedText>) => {
+    setIsImporting(true);
+    setStatus('');
+    try {
+      const imported = await load();
+      if (!imported.html.trim()) throw new Error("No text was found.");
+      onImport(imported);
+      setStatus(`Imported "${imported.title}".`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setStatus(`Import failed: ${message}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (file) runImport(() => importFile(file, subtitleMode));
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (trimmed) runImport(() => importFromUrl(trimmed));
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-2 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-medium">Import</span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-full disabled:opacity-50"
+        >
+          File...
+        </button>
+        <label htmlFor="subtitle-mode" className="text-gray-400">Subtitles</label>
+        <select
+          id="subtitle-mode"
+          value={subtitleMode}
+          onChange={(e) => setSubtitleMode(e.target.value as SubtitleMode)}
+          className="bg-gray-800 border border-gray-600 rounded-md py-1 px-2 text-gray-200 focus:ring-2 focus:ring-teal-400"
+        >
+          <option value="merge">Merge cues into paragraphs</option>
+          <option value="segments">One line per cue</option>
+        </select>
+        {isImporting && <Spinner />}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_FILE_TYPES}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+      <form onSubmit={handleUrlSubmit} className="flex items-center gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://yle.fi/selkouutiset/..."
+          aria-label="Article URL"
+          className="flex-1 bg-gray-800 border border-gray-600 rounded-md py-1 px-2 text-gray-200 focus:ring-2 focus:ring-teal-400"
+        />
+        <button
+          type="submit"
+          disabled={isImporting || !url.trim()}
+          className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-full disabled:opacity-50"
+        >
+          Fetch article
+        </button>
+      </form>
+      {status && <p className="text-gray-400">{status}</p>}
+    </div>
+  );
+};
+
+export default ImportPanel;
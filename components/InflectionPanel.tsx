@@ -0,0 +1,104 @@
+import React, { useEffect, useRef } from 'react';
+import { InflectionClass, InflectionTable } from '../types';
+import { cellHasForm } from '../services/inflectionGenerator';
+import Spinner from './Spinner';
+
+export type InflectionRequest = {
+  /** The form the learner clicked, highlighted wherever it occurs in the table. */
+  word: string;
+  baseForm: string;
+  inflectionClass: InflectionClass;
+  table: InflectionTable | null;
+  error?: string;
+};
+
+interface InflectionPanelProps {
+  request: InflectionRequest;
+  onClose: () => void;
+}
+
+/**
+ * A side panel with every form of a word: the declension of a nominal or the
+ * conjugation of a verb, with the clicked form highlighted.
+ */
+const InflectionPanel: React.FC<InflectionPanelProps> = ({ request, onClose }) => {
+  const { word, baseForm, inflectionClass, table, error } = request;
+  const panelRef = useRef<HTMLElement>(null);
+
+  // Bring the first matching cell into view, since verb tables are long
+  useEffect(() => {
+    panelRef.current?.querySelector('[data-matching-form]')?.scrollIntoView({ block: 'nearest' });
+  }, [table]);
+
+  return (
+    <aside
+      ref={panelRef}
+      aria-label={`All forms of ${baseForm}`}
+      className="fixed top-0 right-0 z-30 h-full w-full sm:w-96 overflow-y-auto bg-gray-800 border-l border-teal-700 shadow-2xl p-4 text-sm text-gray-300 text-left"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="font-semibold uppercase tracking-wide text-teal-300">
+          {inflectionClass === 'verb' ? 'Conjugation' : 'Declension'}
+        </h2>
+        <button
+          onClick={onClose}
+          aria-label="Close the table of forms"
+          className="text-gray-400 hover:text-white text-lg leading-none px-2"
+        >
+          ×
+        </button>
+      </div>
+      <p className="text-base text-white">
+        {baseForm}
+        {word.toLowerCase() !== baseForm.toLowerCase() && <span className="text-gray-400"> — you clicked <span className="text-teal-200">{word}</span></span>}
+      </p>
+      {error ? (
+        <p className="mt-4 text-red-400">{error}</p>
+      ) : table === null ? (
+        <div className="mt-4 flex items-center text-gray-400">
+          <Spinner className="mr-2" /> Generating the forms...
+        </div>
+      ) : (
+        table.sections.map(section => (
+          <section key={section.title} className="mt-4">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{section.title}</h3>
+            <table className="w-full border-collapse text-xs">
+              {section.columns.length > 1 && (
+                <thead>
+                  <tr>
+                    <th scope="col"><span className="sr-only">Form</span></th>
+                    {section.columns.map(column => (
+                      <th key={column} scope="col" className="text-left font-normal text-gray-500 pb-1 px-1.5">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+              )}
+              <tbody>
+                {section.rows.map(row => (
+                  <tr key={row.label} className="border-t border-gray-700">
+                    <th scope="row" className="text-left font-normal text-gray-400 py-1 pr-2 whitespace-nowrap">{row.label}</th>
+                    {row.cells.map((cell, i) => {
+                      const isMatch = cellHasForm(cell, word);
+                      return (
+                        <td
+                          key={i}
+                          data-matching-form={isMatch || undefined}
+                          className={`py-1 px-1.5 ${isMatch ? 'bg-teal-700 text-white font-semibold rounded' : 'text-gray-100'}`}
+                        >
+                          {cell}
+                          {isMatch && <span className="sr-only"> (the clicked form)</span>}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        ))
+      )}
+    </aside>
+  );
+};
+
+export default InflectionPanel;
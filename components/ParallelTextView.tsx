@@ -0,0 +1,48 @@
+import React from 'react';
+import Spinner from './Spinner';
+
+interface ParallelTextViewProps {
+  sentences: string[];
+  sentenceTranslations: Map<number, string>;
+  speakingSentenceId: number | null;
+  isTranslating: boolean;
+  /** Called with a sentence ID when its row is clicked, to start reading aloud from there. */
+  onSentenceClick?: (sentenceId: number) => void;
+}
+
+/**
+ * Shows every sentence of the analysed text next to its English translation.
+ * Rows use the same sentence IDs as TTS, so the spoken sentence is highlighted here too,
+ * and clicking a row starts reading aloud from that sentence.
+ */
+const ParallelTextView: React.FC<ParallelTextViewProps> = ({
+  sentences,
+  sentenceTranslations,
+  speakingSentenceId,
+  isTranslating,
+  onSentenceClick,
+}) => {
+  return (
+    <div className="w-full max-w-5xl bg-gray-800 p-4 sm:p-6 rounded-lg shadow-xl border border-gray-700">
+      <div className="grid grid-cols-[auto_1fr_1fr] gap-x-4 gap-y-3 text-left">
+        {sentences.map((sentence, id) => (
+          <React.Fragment key={id}>
+            <span className="text-xs font-mono text-teal-400 pt-1">{id + 1}</span>
+            <p
+              onClick={onSentenceClick ? () => onSentenceClick(id) : undefined}
+              title={onSentenceClick ? 'Play from this sentence' : undefined}
+              className={`text-lg text-gray-200 ${onSentenceClick ? 'cursor-pointer hover:text-white' : ''} ${id === speakingSentenceId ? 'sentence-highlight' : ''}`}
+            >
+              {sentence.trim()}
+            </p>
+            <p className="text-lg text-gray-400">
+              {sentenceTranslations.get(id) ?? (isTranslating ? <Spinner className="opacity-50" /> : '—')}
+            </p>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ParallelTextView;
@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { TranslationProvider } from '../types';
+import { dictionaryProvider, importDictionary, resetDictionary, DictionaryFormat } from '../services/dictionaryProvider';
+
+interface ProviderSelectorProps {
+  providers: TranslationProvider[];
+  activeProviderId: string;
+  onProviderChange: (id: string) => void;
+}
+
+const ProviderSelector: React.FC<ProviderSelectorProps> = ({
+  providers,
+  activeProviderId,
+  onProviderChange,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dictionarySize, setDictionarySize] = useState<number>(dictionaryProvider.getSize());
+  const [status, setStatus] = useState<string>('');
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    const format: DictionaryFormat = /\.(tsv|txt)$/i.test(file.name) ? 'tsv' : 'json';
+    try {
+      const count = importDictionary(await file.text(), format);
+      setDictionarySize(count);
+      setStatus(`Imported ${count} words from ${file.name}.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setStatus(`Import failed: ${message}`);
+    }
+  };
+
+  const handleResetDictionary = () => {
+    resetDictionary();
+    setDictionarySize(dictionaryProvider.getSize());
+    setStatus('Restored the bundled word list.');
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-2 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="translation-provider" className="font-medium">Translation</label>
+        <select
+          id="translation-provider"
+          value={activeProviderId}
+          onChange={(e) => onProviderChange(e.target.value)}
+          className="bg-gray-800 border border-gray-600 rounded-md py-1 px-2 text-gray-200 focus:ring-2 focus:ring-teal-400"
+        >
+          {providers.map(provider => (
+            <option key={provider.id} value={provider.id}>
+              {provider.name}{provider.isAvailable() ? '' : ' (unavailable)'}
+            </option>
+          ))}
+        </select>
+        <span className="text-gray-400">Dictionary: {dictionarySize} words</span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-full"
+        >
+          Import word list
+        </button>
+        <button
+          onClick={handleResetDictionary}
+          className="text-gray-400 hover:text-gray-200 underline"
+        >
+          Reset
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".tsv,.txt,.json,.jsonl"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+      {status && <p className="text-gray-400">{status}</p>}
+    </div>
+  );
+};
+
+export default ProviderSelector;
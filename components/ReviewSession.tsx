@@ -0,0 +1,262 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ReviewCard, ReviewCardType, ReviewGrade, VocabularyEntry } from '../types';
+import {
+  getDueCards, getReviewStats, recordReview, findClozeRange, CARD_TYPE_LABELS, MAX_DAILY_COLLECTED_LOOKUPS,
+  ReviewPreferences, ReviewStats,
+} from '../services/reviewService';
+import { Clock, systemClock } from '../services/srsScheduler';
+import Spinner from './Spinner';
+
+interface ReviewSessionProps {
+  entries: VocabularyEntry[];
+  preferences: ReviewPreferences;
+  onPreferencesChange: (preferences: ReviewPreferences) => void;
+  /** Pronounces a word, for listening cards. */
+  onSpeak: (word: string) => void;
+  pronouncingWord?: string | null;
+  /** Called after each graded card, e.g. to refresh due counts elsewhere. */
+  onReviewed?: () => void;
+  onClose: () => void;
+  clock?: Clock;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 0, label: 'Again', className: 'bg-red-600 hover:bg-red-500' },
+  { grade: 1, label: 'Hard', className: 'bg-amber-600 hover:bg-amber-500' },
+  { grade: 2, label: 'Good', className: 'bg-teal-600 hover:bg-teal-500' },
+  { grade: 3, label: 'Easy', className: 'bg-blue-600 hover:bg-blue-500' },
+];
+
+const normalizeAnswer = (value: string) => value.trim().toLowerCase().normalize('NFC');
+
+/**
+ * The answers accepted for a typed card: the word as met in the text and, where the
+ * prompt does not ask for that exact form, its base form.
+ */
+const getAcceptedAnswers = (entry: VocabularyEntry, type: ReviewCardType): string[] =>
+  type === 'en-fi' ? [entry.baseForm, entry.word] : [entry.word];
+
+/**
+ * Reviews the due flashcards of the vocabulary notebook. Finnish → English cards are
+ * self-graded; the other types ask for the Finnish word to be typed, then suggest a grade.
+ */
+const ReviewSession: React.FC<ReviewSessionProps> = ({
+  entries,
+  preferences,
+  onPreferencesChange,
+  onSpeak,
+  pronouncingWord = null,
+  onReviewed,
+  onClose,
+  clock = systemClock,
+}) => {
+  const [queue, setQueue] = useState<ReviewCard[] | null>(null);
+  const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [answer, setAnswer] = useState<string>('');
+  const [isRevealed, setIsRevealed] = useState<boolean>(false);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const entriesById = useMemo(() => new Map(entries.map(entry => [entry.id, entry])), [entries]);
+
+  const refreshStats = useCallback(async () => {
+    try {
+      setStats(await getReviewStats(preferences.cardTypes, clock));
+    } catch (error) {
+      console.warn("Could not read review stats:", error);
+    }
+  }, [preferences.cardTypes, clock]);
+
+  useEffect(() => {
+    getDueCards(preferences.cardTypes, clock)
+      .then(cards => setQueue(cards.filter(card => entriesById.has(card.entryId))))
+      .catch(error => {
+        console.error("Could not load due cards:", error);
+        setQueue([]);
+      });
+    refreshStats();
+    // Reload only when the enabled card types change; the queue is managed locally during a session
+  }, [preferences.cardTypes]);
+
+  const card = queue?.[0];
+  const entry = card ? entriesById.get(card.entryId) : undefined;
+  const isTyped = card !== undefined && card.type !== 'fi-en';
+  const isCorrect = entry && card && isTyped
+    ? getAcceptedAnswers(entry, card.type).some(accepted => normalizeAnswer(accepted) === normalizeAnswer(answer))
+    : null;
+
+  // Listening cards start by playing the word
+  useEffect(() => {
+    if (card?.type === 'listening' && entry) onSpeak(entry.word);
+  }, [card?.id]);
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!card || isSaving) return;
+    setIsSaving(true);
+    try {
+      const next = await recordReview(card, grade, clock);
+      // Forgotten cards come back at the end of this session
+      setQueue(prev => prev ? [...prev.slice(1), ...(grade === 0 ? [next] : [])] : prev);
+      setAnswer('');
+      setIsRevealed(false);
+      refreshStats();
+      onReviewed?.();
+    } catch (error) {
+      console.error("Failed to record review:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleCardType = (type: ReviewCardType) => {
+    const cardTypes = preferences.cardTypes.includes(type)
+      ? preferences.cardTypes.filter(t => t !== type)
+      : [...preferences.cardTypes, type];
+    onPreferencesChange({ ...preferences, cardTypes });
+  };
+
+  const renderPrompt = (card: ReviewCard, entry: VocabularyEntry) => {
+    switch (card.type) {
+      case 'fi-en':
+        return <p className="text-4xl font-bold text-white">{entry.baseForm}</p>;
+      case 'en-fi':
+        return <p className="text-3xl font-bold text-white">{entry.translation}</p>;
+      case 'listening':
+        return (
+          <button
+            onClick={() => onSpeak(entry.word)}
+            disabled={pronouncingWord === entry.word}
+            className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white text-xl py-3 px-6 rounded-full"
+          >
+            {pronouncingWord === entry.word ? <Spinner /> : <span aria-hidden="true">🔊</span>} Play again
+          </button>
+        );
+      case 'cloze': {
+        const range = findClozeRange(entry)!;
+        return (
+          <div>
+            <p className="text-2xl text-white">
+              {entry.sentence.slice(0, range.start)}
+              <span className="inline-block min-w-[4rem] border-b-2 border-teal-400 text-teal-300">
+                {isRevealed ? entry.sentence.slice(range.start, range.end) : ' '}
+              </span>
+              {entry.sentence.slice(range.end)}
+            </p>
+            <p className="mt-2 text-gray-400">({entry.translation})</p>
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl flex flex-col gap-4 p-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-teal-300">Review</h1>
+        <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-full">
+          Back
+        </button>
+      </div>
+
+      {stats && (
+        <p className="text-sm text-gray-400">
+          {stats.dueCount} due · {stats.reviewedToday} reviewed today · {stats.streak}-day streak · {stats.totalReviews} reviews in total
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {(Object.keys(CARD_TYPE_LABELS) as ReviewCardType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => toggleCardType(type)}
+            aria-pressed={preferences.cardTypes.includes(type)}
+            className={`${preferences.cardTypes.includes(type) ? 'bg-teal-700' : 'bg-gray-700 hover:bg-gray-600'} text-gray-200 py-0.5 px-3 rounded-full`}
+          >
+            {CARD_TYPE_LABELS[type]}{stats ? ` (${stats.dueByType[type]})` : ''}
+          </button>
+        ))}
+        <label className="flex items-center gap-2 ml-auto text-gray-300">
+          <input
+            type="checkbox"
+            checked={preferences.collectLookups}
+            onChange={(e) => onPreferencesChange({ ...preferences, collectLookups: e.target.checked })}
+            className="accent-teal-500"
+          />
+          Add looked-up words automatically (up to {MAX_DAILY_COLLECTED_LOOKUPS} a day)
+        </label>
+      </div>
+
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 min-h-[16rem] flex flex-col items-center justify-center gap-4 text-center">
+        {queue === null ? (
+          <Spinner />
+        ) : !card || !entry ? (
+          <p className="text-gray-400">
+            {entries.length === 0 ? 'Save words to the notebook to start reviewing.' : 'Nothing is due. Come back later!'}
+          </p>
+        ) : (
+          <>
+            <span className="text-xs uppercase tracking-wide text-gray-500">{CARD_TYPE_LABELS[card.type]}</span>
+            {renderPrompt(card, entry)}
+
+            {isTyped && (
+              <form
+                onSubmit={(e) => { e.preventDefault(); setIsRevealed(true); }}
+                className="flex gap-2"
+              >
+                <input
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  disabled={isRevealed}
+                  autoFocus
+                  placeholder="Type the Finnish word"
+                  className="bg-gray-700 border border-gray-600 rounded px-3 py-2 text-gray-200 text-lg"
+                />
+                {!isRevealed && (
+                  <button type="submit" className="bg-teal-500 hover:bg-teal-600 text-white font-bold py-2 px-4 rounded-full">
+                    Check
+                  </button>
+                )}
+              </form>
+            )}
+
+            {!isTyped && !isRevealed && (
+              <button onClick={() => setIsRevealed(true)} className="bg-teal-500 hover:bg-teal-600 text-white font-bold py-2 px-6 rounded-full">
+                Show answer
+              </button>
+            )}
+
+            {isRevealed && (
+              <div className="flex flex-col items-center gap-2">
+                {isCorrect !== null && (
+                  <p className={isCorrect ? 'text-teal-300' : 'text-red-400'}>
+                    {isCorrect ? 'Correct!' : `The answer is "${getAcceptedAnswers(entry, card.type)[0]}"`}
+                  </p>
+                )}
+                <p className="text-xl text-white">
+                  {entry.baseForm}{entry.word !== entry.baseForm ? ` (${entry.word})` : ''} — {entry.translation}
+                </p>
+                {card.type !== 'cloze' && <p className="text-gray-300 italic">{entry.sentence}</p>}
+                <div className="flex gap-2 mt-2">
+                  {GRADES.map(({ grade, label, className }) => (
+                    <button
+                      key={grade}
+                      onClick={() => handleGrade(grade)}
+                      disabled={isSaving}
+                      className={`${className} text-white font-bold py-2 px-4 rounded-full disabled:opacity-50 ${
+                        isCorrect !== null && grade === (isCorrect ? 2 : 0) ? 'ring-2 ring-white' : ''
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <span className="text-xs text-gray-500">{queue.length} left in this session</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSession;
@@ -1,76 +1,179 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
+import { WordStatus } from '../types';
+import { tokenize, Token, TokenizedText } from '../services/tokenizer';
+import { htmlToPlainText, getTextSeparator } from '../services/htmlService';
+import { isSavedWord } from '../services/vocabularyService';
 
 interface RichTextDisplayProps {
   htmlContent: string;
   speakingSentenceId: number | null;
-  onWordClick: (event: React.MouseEvent<HTMLSpanElement>) => void;
+  /** Start offset of the word currently being spoken, for word-level highlighting. */
+  speakingWordStart?: number | null;
+  /** Called when a word is clicked, or activated with Enter. */
+  onWordClick: (event: WordActivationEvent, token: Token) => void;
+  /** Translates a sentence; also bound to Shift+Enter on its words. */
+  onSentenceClick?: (sentenceId: number) => void;
+  onTextSelect?: (text: string, rect: DOMRect) => void;
+  /** Lowercased words and base forms from the vocabulary notebook; matching words are marked. */
+  savedForms?: Set<string>;
+  /** The reader's status for a word token, shown as colour coding. */
+  getWordStatus?: (token: Token) => WordStatus;
 }
 
-// Maps character offsets to sentence IDs for highlighting during TTS.
-const createSentenceMap = (html: string): ((offset: number) => number) => {
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = html;
-    const plainText = tempDiv.innerText;
-
-    const sentenceRegex = /[^.!?]+[.!?]?/g;
-    const sentences = plainText.match(sentenceRegex) || [];
-    const sentenceEndOffsets: number[] = [];
-    let cumulativeLength = 0;
-    for (const sentence of sentences) {
-        cumulativeLength += sentence.length;
-        sentenceEndOffsets.push(cumulativeLength);
-    }
+export type WordActivationEvent = React.MouseEvent<HTMLSpanElement> | React.KeyboardEvent<HTMLSpanElement>;
 
-    return (charOffset: number): number => {
-        for (let i = 0; i < sentenceEndOffsets.length; i++) {
-            if (charOffset < sentenceEndOffsets[i]) {
-                return i;
-            }
+/**
+ * Finds the word to move the keyboard focus to from `words[index]`: the left and right
+ * arrows step through words, up and down to the start of the previous and next sentence,
+ * and Home and End to the ends of the current sentence.
+ * @returns The index of the word, or null if the key does not navigate.
+ */
+const getNavigationTarget = (words: Token[], index: number, key: string): number | null => {
+    const { sentenceId } = words[index];
+    const sentenceStart = words.findIndex(w => w.sentenceId === sentenceId);
+    switch (key) {
+        case 'ArrowLeft':
+            return Math.max(0, index - 1);
+        case 'ArrowRight':
+            return Math.min(words.length - 1, index + 1);
+        case 'ArrowUp': {
+            if (index > sentenceStart) return sentenceStart;
+            if (sentenceStart === 0) return 0;
+            const previousId = words[sentenceStart - 1].sentenceId;
+            return words.findIndex(w => w.sentenceId === previousId);
         }
-        return -1; // Not found
-    };
+        case 'ArrowDown': {
+            const next = words.findIndex((w, i) => i > index && w.sentenceId !== sentenceId);
+            return next < 0 ? index : next;
+        }
+        case 'Home':
+            return sentenceStart;
+        case 'End': {
+            const nextSentence = words.findIndex((w, i) => i > index && w.sentenceId !== sentenceId);
+            return (nextSentence < 0 ? words.length : nextSentence) - 1;
+        }
+        default:
+            return null;
+    }
 };
 
 /**
  * Parses an HTML string into a tree of React elements, wrapping words in clickable spans
- * and preserving allowed styling.
+ * and preserving allowed styling. Text nodes are walked in step with `htmlToPlainText`,
+ * so the character offsets of the tokenized text line up with the rendered text.
  */
 const parseHtmlToReact = (
     html: string,
+    tokenized: TokenizedText,
     speakingSentenceId: number | null,
-    onWordClick: (event: React.MouseEvent<HTMLSpanElement>) => void
+    speakingWordStart: number | null,
+    onWordClick: (event: WordActivationEvent, token: Token) => void,
+    onSentenceClick?: (sentenceId: number) => void,
+    savedTokenStarts?: Set<number>,
+    tokenStatuses?: Map<number, WordStatus>,
+    focusableStart?: number
 ) => {
     if (typeof window === 'undefined') return [];
     
-    const sentenceMap = createSentenceMap(html);
+    const { tokens } = tokenized;
     let charOffset = 0;
-    let wordKey = 0;
+    let tokenIndex = 0;
+    let pieceKey = 0;
+    let lastMarkedSentenceId = -1;
+
+    // Number each sentence at its first token so it can be translated as a whole
+    const renderMarker = (sentenceId: number): React.ReactNode => {
+        if (!onSentenceClick || sentenceId < 0 || sentenceId === lastMarkedSentenceId) return null;
+        lastMarkedSentenceId = sentenceId;
+        return (
+            <sup key={`marker-${sentenceId}`}>
+                <button
+                    onClick={(event) => {
+                        event.stopPropagation();
+                        onSentenceClick(sentenceId);
+                    }}
+                    tabIndex={-1} // Shift+Enter on a word translates its sentence
+                    title={`Translate sentence ${sentenceId + 1}`}
+                    className="sentence-marker text-xs font-mono text-teal-400 hover:text-teal-200 mr-0.5 select-none"
+                >
+                    {sentenceId + 1}
+                </button>
+            </sup>
+        );
+    };
 
     const transformNode = (node: Node): React.ReactNode => {
         if (node.nodeType === 3) { // Text node
             const text = node.textContent || '';
-            const wordsAndSpaces = text.split(/(\s+)/); // Split on whitespace, keeping it
-            
-            return wordsAndSpaces.map((segment, index) => {
-                if (segment.trim().length > 0) { // It's a word
-                    const sentenceId = sentenceMap(charOffset);
-                    const isHighlighted = sentenceId === speakingSentenceId;
-                    charOffset += segment.length;
-                    
-                    return (
+            const nodeStart = charOffset;
+            const nodeEnd = nodeStart + text.length;
+            charOffset = nodeEnd;
+
+            const pieces: React.ReactNode[] = [];
+            let position = nodeStart;
+
+            // A token may continue into the next text node (e.g. a word partly in bold);
+            // each part is rendered separately but refers to the whole token.
+            while (tokenIndex < tokens.length && tokens[tokenIndex].start < nodeEnd) {
+                const token = tokens[tokenIndex];
+                const pieceStart = Math.max(token.start, nodeStart);
+                const pieceEnd = Math.min(token.end, nodeEnd);
+
+                if (pieceStart > position) { // Whitespace between tokens
+                    pieces.push(text.slice(position - nodeStart, pieceStart - nodeStart));
+                }
+
+                const pieceText = text.slice(pieceStart - nodeStart, pieceEnd - nodeStart);
+                const isHighlighted = token.sentenceId === speakingSentenceId;
+                const marker = renderMarker(token.sentenceId);
+                if (marker) pieces.push(marker);
+
+                if (token.type === 'word') {
+                    const isSpoken = isHighlighted && token.start === speakingWordStart;
+                    const isSaved = savedTokenStarts?.has(token.start);
+                    const status = tokenStatuses?.get(token.start);
+                    const classNames = [
+                        isSpoken ? 'sentence-highlight word-highlight' : isHighlighted ? 'sentence-highlight' : 'cursor-pointer',
+                        status === 'new' || status === 'learning' ? `word-status-${status}` : '',
+                        isSaved ? 'saved-word' : '',
+                    ];
+                    // Roving tab index: one word is in the tab order, the arrow keys move between words.
+                    // Only the first part of a word split across elements takes focus.
+                    const isFirstPiece = pieceStart === token.start;
+                    pieces.push(
                         <span
-                            key={`word-${wordKey++}`}
-                            onClick={onWordClick}
-                            className={isHighlighted ? 'sentence-highlight' : 'cursor-pointer'}
+                            key={`word-${pieceKey++}`}
+                            role="button"
+                            tabIndex={isFirstPiece && token.start === focusableStart ? 0 : -1}
+                            data-token-start={isFirstPiece ? token.start : undefined}
+                            onClick={(event) => onWordClick(event, token)}
+                            onKeyDown={(event) => {
+                                if (event.key !== 'Enter') return;
+                                event.preventDefault();
+                                if (event.shiftKey && onSentenceClick) onSentenceClick(token.sentenceId);
+                                else onWordClick(event, token);
+                            }}
+                            className={['word-token', ...classNames].filter(Boolean).join(' ')}
                         >
-                            {segment}
+                            {pieceText}
                         </span>
                     );
-                } else { // It's whitespace
-                    charOffset += segment.length;
-                    return segment;
+                } else if (isHighlighted) {
+                    const className = token.start === speakingWordStart ? 'sentence-highlight word-highlight' : 'sentence-highlight';
+                    pieces.push(<span key={`piece-${pieceKey++}`} className={className}>{pieceText}</span>);
+                } else {
+                    pieces.push(pieceText);
                 }
-            });
+
+                position = pieceEnd;
+                if (token.end > nodeEnd) break;
+                tokenIndex++;
+            }
+
+            if (position < nodeEnd) {
+                pieces.push(text.slice(position - nodeStart));
+            }
+            return pieces.map((piece, i) => <React.Fragment key={i}>{piece}</React.Fragment>);
         }
 
         if (node.nodeType === 1) { // Element node
@@ -93,6 +196,9 @@ const parseHtmlToReact = (
                 });
             }
 
+            // Line breaks and block ends occupy a newline in the plain text
+            charOffset += getTextSeparator(element).length;
+
             // By spreading the `children` array, we correctly pass them as arguments.
             // For void elements like <br>, the `children` array is empty, so no children are passed, fixing the error.
             return React.createElement(tagName, { style }, ...children);
@@ -115,15 +221,73 @@ const parseHtmlToReact = (
 const RichTextDisplay: React.FC<RichTextDisplayProps> = ({
   htmlContent,
   speakingSentenceId,
+  speakingWordStart = null,
   onWordClick,
+  onSentenceClick,
+  onTextSelect,
+  savedForms,
+  getWordStatus,
 }) => {
+    const tokenized = useMemo(() => tokenize(htmlToPlainText(htmlContent)), [htmlContent]);
+    const words = useMemo(() => tokenized.tokens.filter(t => t.type === 'word'), [tokenized]);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [focusedStart, setFocusedStart] = useState<number | null>(null);
+    // The word that is in the tab order: the last focused one, or the first word of the text
+    const focusableStart = words.some(w => w.start === focusedStart) ? focusedStart! : words[0]?.start;
+    // Matched once per text and notebook change, not on every highlight update during playback
+    const savedTokenStarts = useMemo(() => {
+        if (!savedForms || savedForms.size === 0) return undefined;
+        return new Set(tokenized.tokens.filter(t => t.type === 'word' && isSavedWord(t.text, savedForms)).map(t => t.start));
+    }, [tokenized, savedForms]);
+    const tokenStatuses = useMemo(() => {
+        if (!getWordStatus) return undefined;
+        return new Map(tokenized.tokens.filter(t => t.type === 'word').map(t => [t.start, getWordStatus(t)]));
+    }, [tokenized, getWordStatus]);
     const reactNodes = useMemo(() => 
-        parseHtmlToReact(htmlContent, speakingSentenceId, onWordClick), 
-        [htmlContent, speakingSentenceId, onWordClick]
+        parseHtmlToReact(htmlContent, tokenized, speakingSentenceId, speakingWordStart, onWordClick, onSentenceClick, savedTokenStarts, tokenStatuses, focusableStart), 
+        [htmlContent, tokenized, speakingSentenceId, speakingWordStart, onWordClick, onSentenceClick, savedTokenStarts, tokenStatuses, focusableStart]
     );
 
+    const getFocusedWordIndex = (target: EventTarget): number => {
+        const start = (target as HTMLElement).dataset?.tokenStart;
+        return start === undefined ? -1 : words.findIndex(w => w.start === Number(start));
+    };
+
+    const handleFocus = (event: React.FocusEvent<HTMLDivElement>) => {
+        const index = getFocusedWordIndex(event.target);
+        if (index >= 0) setFocusedStart(words[index].start);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        if (event.ctrlKey || event.metaKey || event.altKey || event.shiftKey) return;
+        const index = getFocusedWordIndex(event.target);
+        if (index < 0) return;
+        const target = getNavigationTarget(words, index, event.key);
+        if (target === null) return;
+        event.preventDefault();
+        containerRef.current?.querySelector<HTMLElement>(`[data-token-start="${words[target].start}"]`)?.focus();
+    };
+
+    // Report selections spanning more than one word, for translating arbitrary passages
+    const handleMouseUp = () => {
+        if (!onTextSelect) return;
+        const selection = window.getSelection();
+        if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+        const text = selection.toString().trim();
+        if (!/\s/.test(text)) return;
+        onTextSelect(text, selection.getRangeAt(0).getBoundingClientRect());
+    };
+
     return (
-        <div className="text-xl sm:text-2xl text-gray-200 leading-relaxed text-left">
+        <div
+            ref={containerRef}
+            role="group"
+            aria-label="Text. Arrow keys move between words and sentences, Enter translates a word, Shift+Enter its sentence."
+            className="text-xl sm:text-2xl text-gray-200 leading-relaxed text-left"
+            onMouseUp={handleMouseUp}
+            onFocus={handleFocus}
+            onKeyDown={handleKeyDown}
+        >
             {reactNodes}
         </div>
     );
@@ -0,0 +1,73 @@
+import React from 'react';
+import { TextStatistics } from '../services/textStatistics';
+import { getFrequencyBand, FREQUENCY_BAND_LABELS } from '../services/frequencyService';
+
+interface TextReportPanelProps {
+  statistics: TextStatistics;
+  onClose: () => void;
+}
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+/**
+ * Summarises the analysed text: its length, lexical variety, most frequent words and
+ * an estimated CEFR level.
+ */
+const TextReportPanel: React.FC<TextReportPanelProps> = ({ statistics, onClose }) => {
+  const figures: [string, string][] = [
+    ['Words', String(statistics.wordCount)],
+    ['Sentences', String(statistics.sentenceCount)],
+    ['Unique forms', String(statistics.uniqueWordCount)],
+    ['Unique lemmas', String(statistics.uniqueLemmaCount)],
+    ['Words per sentence', statistics.averageSentenceLength.toFixed(1)],
+    ['Letters per word', statistics.averageWordLength.toFixed(1)],
+    ['Type/token ratio', statistics.typeTokenRatio.toFixed(2)],
+    ['Common-word coverage', formatPercent(statistics.coverage.listed)],
+    ['Lemmas recognized', formatPercent(statistics.coverage.recognized)],
+  ];
+
+  return (
+    <div className="w-full max-w-3xl bg-gray-800 p-4 rounded-lg shadow-xl border border-teal-700 text-sm text-gray-300">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold uppercase tracking-wide text-teal-300">Text report</h2>
+        <button
+          onClick={onClose}
+          aria-label="Close text report"
+          className="text-gray-400 hover:text-white text-lg leading-none px-2"
+        >
+          ×
+        </button>
+      </div>
+      <div className="flex items-center gap-3 mb-4">
+        <span className="text-3xl font-bold text-teal-200">{statistics.estimatedLevel}</span>
+        <span className="text-gray-400">
+          Estimated CEFR level, from word and sentence length and vocabulary: of the words whose lemma is
+          recognized, {formatPercent(statistics.coverage.veryCommon)} are among the most common lemmas
+          and {formatPercent(statistics.coverage.listed)} are in the frequency list. Names are not counted.
+        </span>
+      </div>
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+        {figures.map(([label, value]) => (
+          <div key={label} className="bg-gray-900/50 rounded px-3 py-2">
+            <dt className="text-xs text-gray-500">{label}</dt>
+            <dd className="text-lg text-gray-100">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      <h3 className="text-xs uppercase tracking-wide text-gray-500 mb-2">Most frequent words</h3>
+      <ol className="flex flex-wrap gap-2">
+        {statistics.frequentWords.map(({ lemma, count, rank }) => (
+          <li
+            key={lemma}
+            title={rank !== null ? `${FREQUENCY_BAND_LABELS[getFrequencyBand(rank)]} (rank ${rank})` : FREQUENCY_BAND_LABELS.uncommon}
+            className="bg-gray-700 rounded px-2 py-1"
+          >
+            {lemma} <span className="text-gray-400">×{count}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default TextReportPanel;
@@ -0,0 +1,75 @@
+import React from 'react';
+import Spinner from './Spinner';
+
+export type PassageTranslation = {
+  title: string;
+  source: string;
+  /** Set when the passage is a single sentence of the text. */
+  sentenceId?: number;
+  translation: string | null;
+  error?: string;
+};
+
+interface TranslationPanelProps {
+  passage: PassageTranslation;
+  /** Starts reading aloud from this passage's sentence; omitted for arbitrary selections. */
+  onPlay?: () => void;
+  /** Opens the grammar explanation of the passage. */
+  onExplainGrammar?: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Shows the idiomatic translation of a sentence or selected passage.
+ */
+const TranslationPanel: React.FC<TranslationPanelProps> = ({ passage, onPlay, onExplainGrammar, onClose }) => {
+  const { title, source, translation, error } = passage;
+
+  return (
+    <div className="w-full max-w-3xl bg-gray-800 p-4 rounded-lg shadow-xl border border-teal-700">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-teal-300">{title}</h2>
+        <div className="flex items-center gap-2">
+          {onExplainGrammar && (
+            <button
+              onClick={onExplainGrammar}
+              className="text-sm text-teal-300 hover:text-white px-2"
+            >
+              Explain grammar
+            </button>
+          )}
+          {onPlay && (
+            <button
+              onClick={onPlay}
+              className="text-sm text-teal-300 hover:text-white px-2"
+            >
+              ▶ Play from here
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            aria-label="Close translation"
+            className="text-gray-400 hover:text-white text-lg leading-none px-2"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+      <p className="text-gray-300 italic mb-2">{source}</p>
+      {/* Announced to screen readers when the translation arrives */}
+      <div aria-live="polite">
+        {error ? (
+          <p className="text-red-400">{error}</p>
+        ) : translation === null ? (
+          <div className="flex items-center text-gray-400">
+            <Spinner className="mr-2" /> Translating...
+          </div>
+        ) : (
+          <p className="text-lg text-white">{translation}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranslationPanel;
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SynthesizedSpeech } from '../types';
+import { ExportRow, formatExportRows } from '../services/vocabularyExport';
+import { RequestOptions } from '../services/requestScheduler';
+import { createAnkiPackage, AnkiAudio } from '../services/ankiExport';
+import { downloadBlob, downloadText } from '../services/downloadService';
+import Spinner from './Spinner';
+
+interface VocabularyExportPanelProps {
+  rows: ExportRow[];
+  getWordSpeech: (word: string, options: RequestOptions) => Promise<SynthesizedSpeech>;
+  getSentenceSpeech: (row: ExportRow, options: RequestOptions) => Promise<SynthesizedSpeech>;
+  /** Deck name and base name for the downloaded file. */
+  defaultName: string;
+  onClose: () => void;
+}
+
+type ExportFormat = 'csv' | 'tsv' | 'apkg';
+
+const selectClass = "bg-gray-700 border border-gray-600 rounded px-2 py-1 text-gray-200";
+
+const toFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'finnish-vocabulary';
+
+/**
+ * Exports a hand-picked subset of words as CSV, TSV or an Anki package with optional audio.
+ */
+const VocabularyExportPanel: React.FC<VocabularyExportPanelProps> = ({ rows, getWordSpeech, getSentenceSpeech, defaultName, onClose }) => {
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(rows.map((_, i) => i)));
+  const [format, setFormat] = useState<ExportFormat>('apkg');
+  const [audio, setAudio] = useState<AnkiAudio>('word');
+  const [name, setName] = useState<string>(defaultName);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Leaving the notebook or the text unmounts the panel; an export in progress is cancelled
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const toggleRow = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    const chosen = rows.filter((_, i) => selected.has(i));
+    if (chosen.length === 0) return;
+    const fileName = toFileName(name);
+    setError(null);
+
+    if (format !== 'apkg') {
+      const delimiter = format === 'csv' ? ',' : '\t';
+      downloadText(formatExportRows(chosen, delimiter), `${fileName}.${format}`, format === 'csv' ? 'text/csv' : 'text/tab-separated-values');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: chosen.length });
+    try {
+      const apkg = await createAnkiPackage(chosen, {
+        deckName: name.trim() || 'Finnish vocabulary',
+        audio,
+        getWordSpeech,
+        getSentenceSpeech,
+        onProgress: (done, total) => setProgress({ done, total }),
+        signal: controller.signal,
+      });
+      downloadBlob(apkg, `${fileName}.apkg`);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Anki export failed:", err);
+        setError(err instanceof Error ? err.message : 'Export failed.');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl bg-gray-800 p-4 rounded-lg shadow-xl border border-teal-700 text-sm text-gray-300 text-left">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold uppercase tracking-wide text-teal-300">Export words</h2>
+        <button
+          onClick={() => { abortRef.current?.abort(); onClose(); }}
+          aria-label="Close word export"
+          className="text-gray-400 hover:text-white text-lg leading-none px-2"
+        >
+          ×
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 mb-3">
+        <label className="flex items-center gap-2">
+          Format
+          <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={selectClass}>
+            <option value="apkg">Anki package (.apkg)</option>
+            <option value="csv">CSV</option>
+            <option value="tsv">TSV</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2 flex-1 min-w-[10rem]">
+          {format === 'apkg' ? 'Deck' : 'File'}
+          <input value={name} onChange={(e) => setName(e.target.value)} className={`${selectClass} flex-1`} />
+        </label>
+        {format === 'apkg' && (
+          <label className="flex items-center gap-2">
+            Audio
+            <select value={audio} onChange={(e) => setAudio(e.target.value as AnkiAudio)} className={selectClass}>
+              <option value="none">None</option>
+              <option value="word">Word</option>
+              <option value="sentence">Sentence</option>
+              <option value="both">Word and sentence</option>
+            </select>
+          </label>
+        )}
+      </div>
+      <div className="flex items-center gap-3 mb-2">
+        <span>{selected.size} of {rows.length} selected</span>
+        <button onClick={() => setSelected(new Set(rows.map((_, i) => i)))} className="text-teal-300 hover:text-white">All</button>
+        <button onClick={() => setSelected(new Set())} className="text-teal-300 hover:text-white">None</button>
+      </div>
+      <ul className="max-h-64 overflow-y-auto border border-gray-700 rounded divide-y divide-gray-700">
+        {rows.map((row, i) => (
+          <li key={i}>
+            <label className="flex items-baseline gap-3 px-3 py-1.5 cursor-pointer hover:bg-gray-700/50">
+              <input type="checkbox" checked={selected.has(i)} onChange={() => toggleRow(i)} className="accent-teal-500" />
+              <span className="font-semibold text-white">{row.baseForm}</span>
+              {row.word !== row.baseForm && <span className="text-gray-400">({row.word})</span>}
+              <span className="text-teal-300">{row.translation}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center justify-end gap-3 mt-3">
+        {error && <p className="text-red-400 mr-auto">{error}</p>}
+        {progress ? (
+          <>
+            <Spinner className="mr-1" />
+            Preparing audio {progress.done} / {progress.total}
+            <button onClick={() => abortRef.current?.abort()} className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-full">
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleExport}
+            disabled={selected.size === 0}
+            className="bg-teal-500 hover:bg-teal-600 text-white font-bold py-1 px-4 rounded-full disabled:opacity-50"
+          >
+            Export
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VocabularyExportPanel;
@@ -0,0 +1,212 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { SynthesizedSpeech, VocabularyEntry } from '../types';
+import { NewVocabularyEntry } from '../services/vocabularyService';
+import { ExportRow, parseVocabularyFile, vocabularyToExportRows } from '../services/vocabularyExport';
+import { RequestOptions } from '../services/requestScheduler';
+import VocabularyExportPanel from './VocabularyExportPanel';
+
+interface VocabularyNotebookProps {
+  entries: VocabularyEntry[];
+  onUpdate: (entry: VocabularyEntry) => void;
+  onDelete: (id: string) => void;
+  /** Adds imported entries; resolves to the number actually added (duplicates are skipped). */
+  onImport: (entries: NewVocabularyEntry[]) => Promise<number>;
+  getWordSpeech: (word: string, options: RequestOptions) => Promise<SynthesizedSpeech>;
+  getSentenceSpeech: (row: ExportRow, options: RequestOptions) => Promise<SynthesizedSpeech>;
+  onClose: () => void;
+}
+
+type Draft = Pick<VocabularyEntry, 'baseForm' | 'translation' | 'notes'> & { tags: string };
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-gray-200";
+
+const matchesQuery = (entry: VocabularyEntry, query: string): boolean => {
+  if (!query) return true;
+  const haystack = [entry.word, entry.baseForm, entry.translation, entry.sentence, entry.sourceTitle, entry.notes, ...entry.tags]
+    .join('\n')
+    .toLowerCase();
+  return haystack.includes(query.toLowerCase());
+};
+
+/**
+ * Browses the saved words: search across all fields, filter by tag, and edit or delete entries.
+ */
+const VocabularyNotebook: React.FC<VocabularyNotebookProps> = ({
+  entries,
+  onUpdate,
+  onDelete,
+  onImport,
+  getWordSpeech,
+  getSentenceSpeech,
+  onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<string>('');
+  const [exportRows, setExportRows] = useState<ExportRow[] | null>(null);
+  const [query, setQuery] = useState<string>('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const allTags = useMemo(() => Array.from(new Set(entries.flatMap(entry => entry.tags))).sort(), [entries]);
+  const visibleEntries = entries.filter(entry =>
+    matchesQuery(entry, query.trim()) && (!activeTag || entry.tags.includes(activeTag))
+  );
+
+  const startEditing = (entry: VocabularyEntry) => {
+    setEditingId(entry.id);
+    setDraft({ baseForm: entry.baseForm, translation: entry.translation, notes: entry.notes, tags: entry.tags.join(', ') });
+  };
+
+  const saveEdit = (entry: VocabularyEntry) => {
+    if (!draft) return;
+    onUpdate({ ...entry, ...draft, tags: draft.tags.split(',') });
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const imported = parseVocabularyFile(await file.text());
+      const added = await onImport(imported);
+      setStatus(`Imported ${added} of ${imported.length} words from ${file.name}.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setStatus(`Import failed: ${message}`);
+    }
+  };
+
+  const handleDelete = (entry: VocabularyEntry) => {
+    if (window.confirm(`Delete "${entry.baseForm}" from the notebook?`)) onDelete(entry.id);
+  };
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col gap-4 p-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-teal-300">Vocabulary notebook</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-2 px-4 rounded-full"
+          >
+            Import CSV
+          </button>
+          <button
+            onClick={() => setExportRows(exportRows ? null : vocabularyToExportRows(visibleEntries))}
+            disabled={visibleEntries.length === 0}
+            aria-pressed={exportRows !== null}
+            className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-2 px-4 rounded-full disabled:opacity-50"
+          >
+            Export
+          </button>
+          <button
+            onClick={onClose}
+            className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-full"
+          >
+            Back
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+      {status && <p className="text-sm text-gray-400">{status}</p>}
+      {exportRows && (
+        <VocabularyExportPanel
+          rows={exportRows}
+          getWordSpeech={getWordSpeech}
+          getSentenceSpeech={getSentenceSpeech}
+          defaultName={activeTag ? `Finnish vocabulary - ${activeTag}` : 'Finnish vocabulary'}
+          onClose={() => setExportRows(null)}
+        />
+      )}
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search words, translations, sentences, tags..."
+        className="w-full bg-gray-800 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:ring-2 focus:ring-teal-400"
+      />
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-sm">
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              aria-pressed={activeTag === tag}
+              className={`${activeTag === tag ? 'bg-teal-700' : 'bg-gray-700 hover:bg-gray-600'} text-gray-200 py-0.5 px-3 rounded-full`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="text-sm text-gray-400">
+        {visibleEntries.length} of {entries.length} {entries.length === 1 ? 'word' : 'words'}
+      </p>
+      {entries.length === 0 && (
+        <p className="text-gray-400">Save words from the word tooltip to collect them here.</p>
+      )}
+      <ul className="flex flex-col gap-3">
+        {visibleEntries.map(entry => (
+          <li key={entry.id} className="bg-gray-800 border border-gray-700 rounded-lg p-4 text-left">
+            {editingId === entry.id && draft ? (
+              <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-2 items-center text-sm text-gray-300">
+                <label htmlFor={`base-${entry.id}`}>Base form</label>
+                <input id={`base-${entry.id}`} value={draft.baseForm} onChange={(e) => setDraft({ ...draft, baseForm: e.target.value })} className={inputClass} />
+                <label htmlFor={`translation-${entry.id}`}>Translation</label>
+                <input id={`translation-${entry.id}`} value={draft.translation} onChange={(e) => setDraft({ ...draft, translation: e.target.value })} className={inputClass} />
+                <label htmlFor={`tags-${entry.id}`}>Tags</label>
+                <input id={`tags-${entry.id}`} value={draft.tags} placeholder="comma, separated" onChange={(e) => setDraft({ ...draft, tags: e.target.value })} className={inputClass} />
+                <label htmlFor={`notes-${entry.id}`}>Notes</label>
+                <textarea id={`notes-${entry.id}`} value={draft.notes} rows={2} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} className={inputClass} />
+                <div className="col-span-2 flex justify-end gap-2">
+                  <button onClick={() => { setEditingId(null); setDraft(null); }} className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-full">
+                    Cancel
+                  </button>
+                  <button onClick={() => saveEdit(entry)} className="bg-teal-500 hover:bg-teal-600 text-white font-bold py-1 px-3 rounded-full">
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-4">
+                <div className="flex-1">
+                  <div className="flex flex-wrap items-baseline gap-x-3">
+                    <span className="text-xl font-semibold text-white">{entry.baseForm}</span>
+                    {entry.word !== entry.baseForm && <span className="text-gray-400">({entry.word})</span>}
+                    <span className="text-teal-300">{entry.translation}</span>
+                  </div>
+                  <p className="mt-1 text-gray-300 italic">{entry.sentence}</p>
+                  {entry.notes && <p className="mt-1 text-sm text-gray-400">{entry.notes}</p>}
+                  <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                    <span>{entry.sourceTitle}</span>
+                    <span>·</span>
+                    <span>{new Date(entry.createdAt).toLocaleDateString()}</span>
+                    {entry.tags.map(tag => (
+                      <span key={tag} className="bg-gray-700 text-gray-300 py-0.5 px-2 rounded-full">#{tag}</span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex flex-col gap-2 text-sm">
+                  <button onClick={() => startEditing(entry)} className="text-teal-300 hover:text-white">Edit</button>
+                  <button onClick={() => handleDelete(entry)} className="text-red-400 hover:text-red-300">Delete</button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default VocabularyNotebook;
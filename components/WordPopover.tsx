@@ -0,0 +1,269 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { CompoundPart, TooltipData, WordAnalysis, WordStatus } from '../types';
+import { WORD_STATUSES, WORD_STATUS_LABELS } from '../services/wordStatusService';
+import { findFrequencyLemma, getFrequencyRank, getFrequencyBand, FREQUENCY_BAND_LABELS, FrequencyBand } from '../services/frequencyService';
+import Spinner from './Spinner';
+
+interface WordPopoverProps {
+  tooltipData: NonNullable<TooltipData>;
+  /** Pronounces a word or sentence; offered for the clicked word, its base form and the example. */
+  onSpeak?: (text: string) => void;
+  /** The text whose pronunciation is being synthesized, if any. */
+  pronouncingWord?: string | null;
+  /** Looks up one part of a compound word. */
+  onCompoundPartClick?: (part: CompoundPart) => void;
+  /** Opens the declension or conjugation table of the word; omitted for words that do not inflect. */
+  onShowForms?: () => void;
+  /** Saves the word to the vocabulary notebook. */
+  onSave?: () => void;
+  isSaved?: boolean;
+  /** The reader's status for the word's lemma; keys 1-4 or these buttons change it. */
+  wordStatus?: WordStatus;
+  onStatusChange?: (status: WordStatus) => void;
+}
+
+/** The closest the popover comes to the edges of the window. */
+const VIEWPORT_MARGIN = 8;
+/** The space between the popover and its word. */
+const ANCHOR_GAP = 8;
+
+type Placement = {
+  left: number;
+  top: number;
+};
+
+const BAND_CLASSES: Record<FrequencyBand, string> = {
+  'very-common': 'bg-teal-800 text-teal-200',
+  'common': 'bg-sky-900 text-sky-200',
+  'uncommon': 'bg-gray-600 text-gray-300',
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Builds the label/value rows for a morphological analysis, skipping fields
+ * that do not apply to the word (e.g. case for verbs, tense for nouns).
+ */
+const getAnalysisRows = (analysis: WordAnalysis): [string, string][] => {
+  const rows: [string, string][] = [
+    ['Base form', analysis.baseForm],
+    ['Part of speech', analysis.partOfSpeech],
+  ];
+  if (analysis.case) rows.push(['Case', capitalize(analysis.case)]);
+  if (analysis.number) rows.push(['Number', capitalize(analysis.number)]);
+  if (analysis.person) rows.push(['Person', analysis.person]);
+  if (analysis.tense) rows.push(['Tense', analysis.tense]);
+  if (analysis.mood) rows.push(['Mood', analysis.mood]);
+  if (analysis.possessiveSuffix) rows.push(['Possessive', analysis.possessiveSuffix]);
+  if (analysis.clitics.length > 0) rows.push(['Clitics', analysis.clitics.join(', ')]);
+  return rows;
+};
+
+/**
+ * Centres the popover on its word: above the word when it fits there or there is more room
+ * above than below, otherwise below it, and shifted sideways to stay inside the window.
+ */
+const placePopover = (data: NonNullable<TooltipData>, width: number, height: number): Placement => {
+  const roomAbove = data.y - ANCHOR_GAP - VIEWPORT_MARGIN;
+  const roomBelow = window.innerHeight - data.anchorBottom - ANCHOR_GAP - VIEWPORT_MARGIN;
+  const top = height <= roomAbove || roomAbove >= roomBelow
+    ? Math.max(VIEWPORT_MARGIN, data.y - ANCHOR_GAP - height)
+    : data.anchorBottom + ANCHOR_GAP;
+  const maxLeft = window.innerWidth - width - VIEWPORT_MARGIN;
+  const left = Math.max(VIEWPORT_MARGIN, Math.min(data.x - width / 2, maxLeft));
+  return { left, top };
+};
+
+/**
+ * Shows a word's translation in context with its other senses, an example, its frequency
+ * and analysis, and actions for it. Clicks inside the popover leave it open.
+ */
+const WordPopover: React.FC<WordPopoverProps> = ({ tooltipData, onSpeak, pronouncingWord = null, onCompoundPartClick, onShowForms, onSave, isSaved = false, wordStatus, onStatusChange }) => {
+  const { text, word, senses, example, compound, analysis, isAnalysisPending } = tooltipData;
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const [placement, setPlacement] = useState<Placement | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+
+  // Measured before painting, so the popover never shows at a position that overflows
+  useLayoutEffect(() => {
+    const place = () => {
+      const element = popoverRef.current;
+      if (element) setPlacement(placePopover(tooltipData, element.offsetWidth, element.offsetHeight));
+    };
+    place();
+    window.addEventListener('resize', place);
+    return () => window.removeEventListener('resize', place);
+  }, [tooltipData, isSaved, wordStatus]);
+
+  useEffect(() => setIsCopied(false), [tooltipData.occurrenceKey]);
+
+  const lemma = word ? analysis?.baseForm || word : null;
+  const frequencyRank = word ? getFrequencyRank(findFrequencyLemma(word, analysis?.baseForm)) : null;
+  const frequencyBand = getFrequencyBand(frequencyRank);
+
+  // The base form is offered separately only when it differs from the inflected word
+  const wordsToSpeak = [word, analysis?.baseForm]
+    .filter((w): w is string => Boolean(w))
+    .filter((w, i, all) => all.findIndex(other => other.toLowerCase() === w.toLowerCase()) === i);
+
+  const handleCopy = async () => {
+    const lines = [lemma && lemma !== word ? `${word} (${lemma}): ${text}` : `${word}: ${text}`];
+    if (senses && senses.length > 0) lines.push(`Also: ${senses.join(', ')}`);
+    if (example) lines.push(`${example.finnish} — ${example.english}`);
+    try {
+      await navigator.clipboard.writeText(lines.join('\n'));
+      setIsCopied(true);
+    } catch (error) {
+      console.warn("Could not copy to the clipboard:", error);
+    }
+  };
+
+  const renderSpeakButton = (value: string, label: string, className = '') => (
+    <button
+      onClick={() => onSpeak!(value)}
+      disabled={pronouncingWord === value}
+      aria-label={`Pronounce ${label}`}
+      className={`flex items-center text-xs bg-gray-600 hover:bg-gray-500 rounded-full px-2 py-0.5 disabled:opacity-60 ${className}`}
+    >
+      {pronouncingWord === value ? <Spinner className="mr-1" /> : <span className="mr-1" aria-hidden="true">🔊</span>}
+      {label}
+    </button>
+  );
+
+  return (
+    <div
+      ref={popoverRef}
+      role="dialog"
+      aria-label={word ? `Translation of ${word}` : 'Translation'}
+      data-word-tooltip
+      className="fixed z-50 bg-gray-700 text-white text-sm rounded py-2 px-3 shadow-lg max-w-xs overflow-y-auto"
+      style={{
+        top: `${placement?.top ?? 0}px`,
+        left: `${placement?.left ?? 0}px`,
+        maxHeight: `calc(100vh - ${2 * VIEWPORT_MARGIN}px)`,
+        visibility: placement ? 'visible' : 'hidden',
+      }}
+    >
+      {word && (
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <span className="font-semibold text-teal-200">{word}</span>
+          <span
+            className={`text-[10px] uppercase tracking-wide rounded px-1.5 py-0.5 ${BAND_CLASSES[frequencyBand]}`}
+            title={frequencyRank !== null ? `Rank ${frequencyRank} in the frequency list` : 'Not in the frequency list'}
+          >
+            {FREQUENCY_BAND_LABELS[frequencyBand]}
+          </span>
+        </div>
+      )}
+      {senses && senses.length > 0 ? (
+        <ol className="list-decimal list-inside">
+          <li className="font-semibold">
+            {text} <span className="text-xs font-normal text-gray-400">(here)</span>
+          </li>
+          {senses.map(sense => (
+            <li key={sense} className="text-gray-300">{sense}</li>
+          ))}
+        </ol>
+      ) : (
+        <div className="font-semibold">{text}</div>
+      )}
+      {compound && (
+        <div className="flex flex-wrap items-center gap-1 mt-1.5 text-xs" role="group" aria-label="Parts of the compound">
+          {compound.map((part, i) => (
+            <React.Fragment key={i}>
+              {i > 0 && <span className="text-gray-500" aria-hidden="true">+</span>}
+              <button
+                onClick={() => onCompoundPartClick?.(part)}
+                disabled={!onCompoundPartClick}
+                title={part.surface !== part.baseForm ? `${part.surface} (${part.baseForm})` : part.baseForm}
+                className="flex flex-col items-center bg-gray-800 hover:bg-gray-600 disabled:hover:bg-gray-800 rounded px-1.5 py-0.5"
+              >
+                <span className="font-medium text-teal-200">{part.surface}</span>
+                <span className="text-gray-400">{part.gloss}</span>
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+      {example && (
+        <div className="mt-1.5 text-xs">
+          <div className="flex items-start gap-1.5">
+            <p className="italic text-gray-100">{example.finnish}</p>
+            {onSpeak && renderSpeakButton(example.finnish, 'example', 'shrink-0')}
+          </div>
+          <p className="text-gray-400">{example.english}</p>
+        </div>
+      )}
+      {word && (
+        <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+          {onSpeak && wordsToSpeak.map(w => <React.Fragment key={w}>{renderSpeakButton(w, w)}</React.Fragment>)}
+          <button
+            onClick={handleCopy}
+            className="text-xs bg-gray-600 hover:bg-gray-500 rounded-full px-2 py-0.5"
+          >
+            {isCopied ? '✓ Copied' : 'Copy'}
+          </button>
+          {onShowForms && (
+            <button
+              onClick={onShowForms}
+              className="text-xs bg-gray-600 hover:bg-gray-500 rounded-full px-2 py-0.5"
+            >
+              All forms
+            </button>
+          )}
+          {onSave && (
+            <button
+              onClick={onSave}
+              disabled={isSaved}
+              className="text-xs text-amber-300 hover:text-amber-200 disabled:text-gray-400"
+            >
+              {isSaved ? '★ In notebook' : '☆ Save'}
+            </button>
+          )}
+          {lemma && (
+            <a
+              href={`https://en.wiktionary.org/wiki/${encodeURIComponent(lemma)}#Finnish`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-teal-300 hover:text-teal-200 underline"
+            >
+              Wiktionary ↗
+            </a>
+          )}
+        </div>
+      )}
+      {wordStatus && onStatusChange && (
+        <div className="flex gap-1 mt-1.5 text-xs" role="group" aria-label="Word status">
+          {WORD_STATUSES.map((status, i) => (
+            <button
+              key={status}
+              onClick={() => onStatusChange(status)}
+              aria-pressed={wordStatus === status}
+              title={`${WORD_STATUS_LABELS[status]} (${i + 1})`}
+              className={`${wordStatus === status ? 'bg-teal-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'} rounded px-1.5 py-0.5`}
+            >
+              {WORD_STATUS_LABELS[status]}
+            </button>
+          ))}
+        </div>
+      )}
+      {isAnalysisPending && (
+        <div className="flex items-center mt-1 text-gray-300 text-xs">
+          <Spinner className="mr-2" /> Analysing...
+        </div>
+      )}
+      {analysis && (
+        <dl className="mt-1.5 pt-1.5 border-t border-gray-600 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+          {getAnalysisRows(analysis).map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-gray-400">{label}</dt>
+              <dd className="text-gray-100">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
+
+export default WordPopover;
@@ -0,0 +1,141 @@
+/**
+ * A small bundled Finnish–English word list covering the most frequent words,
+ * so the offline dictionary provider is useful before a full list is imported.
+ * Format: finnish<TAB>english senses separated by ";"<TAB>part of speech
+ */
+export const BASIC_DICTIONARY_TSV = `ja	and	conjunction
+on	is; has	verb
+ei	not; no	verb
+että	that	conjunction
+se	it; that	pronoun
+hän	he; she	pronoun
+minä	I	pronoun
+sinä	you	pronoun
+me	we	pronoun
+te	you (plural)	pronoun
+he	they	pronoun
+tämä	this	pronoun
+tuo	that	pronoun
+mikä	what; which	pronoun
+kuka	who	pronoun
+joka	who; which; every	pronoun
+kun	when; as	conjunction
+mutta	but	conjunction
+tai	or	conjunction
+jos	if	conjunction
+myös	also; too	adverb
+vain	only; just	adverb
+niin	so; thus	adverb
+nyt	now	adverb
+sitten	then	adverb
+jo	already	adverb
+vielä	still; yet	adverb
+aina	always	adverb
+paljon	a lot; much	adverb
+hyvin	well; very	adverb
+täällä	here	adverb
+siellä	there	adverb
+missä	where	adverb
+miksi	why	adverb
+miten	how	adverb
+olla	to be	verb
+tulla	to come; to become	verb
+mennä	to go	verb
+tehdä	to do; to make	verb
+sanoa	to say	verb
+voida	can; to be able to	verb
+saada	to get; to be allowed to	verb
+pitää	to like; to hold; must	verb
+antaa	to give	verb
+nähdä	to see	verb
+tietää	to know	verb
+haluta	to want	verb
+puhua	to speak	verb
+lukea	to read	verb
+kirjoittaa	to write	verb
+syödä	to eat	verb
+juoda	to drink	verb
+asua	to live; to reside	verb
+ottaa	to take	verb
+ostaa	to buy	verb
+alkaa	to begin	verb
+käydä	to visit; to go	verb
+ymmärtää	to understand	verb
+rakastaa	to love	verb
+talo	house	noun
+koti	home	noun
+kirja	book	noun
+koulu	school	noun
+työ	work; job	noun
+päivä	day	noun
+yö	night	noun
+aamu	morning	noun
+ilta	evening	noun
+vuosi	year	noun
+aika	time	noun
+ihminen	person; human	noun
+mies	man	noun
+nainen	woman	noun
+lapsi	child	noun
+äiti	mother	noun
+isä	father	noun
+ystävä	friend	noun
+kaupunki	city; town	noun
+maa	country; land; earth	noun
+kieli	language; tongue	noun
+suomi	Finnish; Finland	noun
+vesi	water	noun
+ruoka	food	noun
+kahvi	coffee	noun
+leipä	bread	noun
+auto	car	noun
+tie	road; way	noun
+metsä	forest	noun
+järvi	lake	noun
+meri	sea	noun
+kuusi	six; spruce	noun
+tuli	fire	noun
+tuuli	wind	noun
+tulli	customs	noun
+sana	word	noun
+lause	sentence	noun
+kysymys	question	noun
+vastaus	answer	noun
+asia	thing; matter	noun
+raha	money	noun
+kansa	people; nation	noun
+edustaja	representative	noun
+vaali	election	noun
+lento	flight	noun
+kenttä	field	noun
+bussi	bus	noun
+juna	train	noun
+asema	station; position	noun
+kone	machine	noun
+kauppa	shop; trade	noun
+katu	street	noun
+puhelin	telephone	noun
+hyvä	good	adjective
+huono	bad	adjective
+iso	big	adjective
+pieni	small	adjective
+uusi	new	adjective
+vanha	old	adjective
+kaunis	beautiful	adjective
+helppo	easy	adjective
+vaikea	difficult	adjective
+kylmä	cold	adjective
+lämmin	warm	adjective
+yksi	one	numeral
+kaksi	two	numeral
+kolme	three	numeral
+neljä	four	numeral
+viisi	five	numeral
+seitsemän	seven	numeral
+kahdeksan	eight	numeral
+yhdeksän	nine	numeral
+kymmenen	ten	numeral
+kiitos	thank you	interjection
+kyllä	yes	adverb
+moi	hi	interjection
+hei	hello; hey	interjection`;
@@ -0,0 +1,732 @@
+/**
+ * The most frequent Finnish lemmas in general written text, most frequent first,
+ * compiled from newspaper and fiction frequency counts. Used to estimate how demanding
+ * a text's vocabulary is. Format: one lemma per line.
+ */
+export const FINNISH_FREQUENCY_LIST = `olla
+ja
+ei
+se
+että
+hän
+tämä
+joka
+minä
+mutta
+kuin
+niin
+sinä
+me
+he
+voida
+tulla
+saada
+kun
+mikä
+jo
+myös
+vain
+te
+nyt
+tai
+vielä
+kaikki
+sitten
+mennä
+sanoa
+pitää
+kanssa
+jos
+tehdä
+koska
+vuosi
+hyvä
+kuitenkin
+oma
+ottaa
+tietää
+aika
+uusi
+antaa
+yksi
+nähdä
+jälkeen
+mukaan
+suuri
+paljon
+muu
+kaksi
+eli
+esimerkiksi
+asia
+ihminen
+toinen
+siellä
+täällä
+aina
+koko
+sama
+päivä
+kuka
+miksi
+missä
+milloin
+miten
+kyllä
+juuri
+ehkä
+vaikka
+lähteä
+alkaa
+jäädä
+käydä
+tuoda
+elää
+ajatella
+puhua
+kysyä
+vastata
+haluta
+täytyä
+tarvita
+kertoa
+löytää
+katsoa
+kuulla
+tuntea
+ymmärtää
+asua
+syödä
+juoda
+nukkua
+istua
+seistä
+kävellä
+ajaa
+tulo
+maa
+kaupunki
+talo
+koti
+työ
+raha
+vesi
+ruoka
+aamu
+ilta
+yö
+viikko
+kuukausi
+tunti
+minuutti
+hetki
+kerta
+paikka
+tie
+katu
+auto
+juna
+bussi
+kirja
+lehti
+koulu
+opettaja
+oppilas
+lapsi
+äiti
+isä
+perhe
+ystävä
+mies
+nainen
+poika
+tyttö
+sisko
+veli
+nimi
+kieli
+suomi
+sana
+lause
+kysymys
+vastaus
+ongelma
+syy
+tapa
+osa
+puoli
+loppu
+alku
+keskusta
+pieni
+iso
+vanha
+nuori
+pitkä
+lyhyt
+kaunis
+helppo
+vaikea
+tärkeä
+oikea
+väärä
+valmis
+vapaa
+kallis
+halpa
+lämmin
+kylmä
+kuuma
+kolme
+neljä
+viisi
+kuusi
+seitsemän
+kahdeksan
+yhdeksän
+kymmenen
+sata
+tuhat
+ensimmäinen
+viimeinen
+joku
+jokin
+mitään
+kukaan
+jokainen
+moni
+muutama
+hieman
+vähän
+liian
+aivan
+hyvin
+melko
+erittäin
+todella
+heti
+pian
+usein
+joskus
+harvoin
+ennen
+nopeasti
+hitaasti
+yhdessä
+yksin
+kotona
+ulkona
+sisällä
+tänään
+huomenna
+eilen
+kiitos
+anteeksi
+hei
+moi
+terve
+näkemiin
+kello
+ikkuna
+ovi
+huone
+keittiö
+pöytä
+tuoli
+sänky
+kauppa
+ravintola
+kahvi
+tee
+maito
+leipä
+liha
+kala
+juusto
+omena
+peruna
+sää
+sade
+lumi
+aurinko
+tuuli
+kesä
+talvi
+kevät
+syksy
+meri
+järvi
+metsä
+puu
+kukka
+koira
+kissa
+lintu
+silmä
+käsi
+jalka
+pää
+sydän
+terveys
+lääkäri
+sairaala
+ajatus
+elämä
+maailma
+ihmiset
+valtio
+hallitus
+presidentti
+ministeri
+puolue
+kunta
+yritys
+yhteiskunta
+tilanne
+kehitys
+tutkimus
+tieto
+tulos
+mahdollisuus
+päätös
+muutos
+ryhmä
+jäsen
+johtaja
+palvelu
+toiminta
+järjestelmä
+tavoite
+hinta
+kustannus
+määrä
+prosentti
+euro
+miljoona
+kehittää
+toimia
+järjestää
+päättää
+esittää
+todeta
+kuulua
+liittyä
+saattaa
+näyttää
+tuntua
+pysyä
+muuttaa
+kasvaa
+nousta
+laskea
+lisätä
+vähentää
+käyttää
+tarjota
+hakea
+ostaa
+myydä
+maksaa
+avata
+sulkea
+aloittaa
+lopettaa
+jatkaa
+odottaa
+auttaa
+yrittää
+onnistua
+oppia
+opiskella
+opettaa
+lukea
+kirjoittaa
+laulaa
+soittaa
+pelata
+leikkiä
+tanssia
+uida
+juosta
+matkustaa
+palata
+saapua
+lähettää
+muistaa
+unohtaa
+rakastaa
+toivoa
+uskoa
+luulla
+tarkoittaa
+selittää
+kuvata
+valita
+verrata
+sopia
+riittää
+puuttua
+tapahtua
+syntyä
+kuolla
+voittaa
+hävitä
+pelätä
+nauraa
+itkeä
+hymyillä
+huutaa
+kuunnella
+nostaa
+laittaa
+panna
+viedä
+kantaa
+heittää
+pudota
+kaatua
+rakentaa
+korjata
+siivota
+pestä
+keittää
+leipoa
+valmistaa
+tilata
+varata
+vuokrata
+asunto
+koulutus
+yliopisto
+opiskelija
+kurssi
+tehtävä
+koe
+harjoitus
+esimerkki
+teksti
+kirje
+viesti
+puhelin
+tietokone
+internet
+sivu
+uutinen
+ohjelma
+elokuva
+musiikki
+laulu
+peli
+urheilu
+jalkapallo
+matka
+loma
+hotelli
+lentokone
+asema
+satama
+lentokenttä
+kartta
+lippu
+passi
+tili
+pankki
+posti
+kirjasto
+museo
+kirkko
+tori
+puisto
+ranta
+saari
+vuori
+joki
+taivas
+tähti
+kuu
+ilma
+tuli
+kivi
+hiekka
+väri
+punainen
+sininen
+vihreä
+keltainen
+musta
+valkoinen
+harmaa
+ruskea
+iloinen
+surullinen
+väsynyt
+nälkäinen
+sairas
+vahva
+heikko
+rikas
+köyhä
+ystävällinen
+mukava
+hauska
+tylsä
+kiinnostava
+outo
+tavallinen
+erilainen
+yhteinen
+julkinen
+yksityinen
+kansainvälinen
+suomalainen
+ruotsalainen
+venäläinen
+englanti
+ruotsi
+venäjä
+saksa
+ranska
+helsinki
+lähellä
+kaukana
+edessä
+takana
+alla
+päällä
+vieressä
+välissä
+ympäri
+kautta
+ilman
+vastaan
+kohti
+asti
+saakka
+lähtien
+aikana
+takia
+vuoksi
+avulla
+sijaan
+lisäksi
+paitsi
+noin
+yli
+alle
+vasta
+ainakin
+lähes
+melkein
+ainoa
+jopa
+varsin
+tosin
+siis
+nimittäin
+joten
+jotta
+vaan
+sekä
+eikä
+entä
+kuten
+ikään
+taas
+jälleen
+enää
+yhä
+silloin
+kerran
+lopulta
+tietysti
+varmasti
+ilmeisesti
+luultavasti
+onneksi
+valitettavasti
+mielellään
+mieli
+mielipide
+tunne
+ilo
+suru
+pelko
+viha
+rakkaus
+ystävyys
+onni
+vapaus
+rauha
+sota
+armeija
+poliisi
+laki
+oikeus
+vastuu
+velvollisuus
+turvallisuus
+ympäristö
+luonto
+ilmasto
+energia
+sähkö
+öljy
+teollisuus
+talous
+markkina
+tuote
+asiakas
+työntekijä
+palkka
+vero
+budjetti
+sopimus
+neuvottelu
+kokous
+keskustelu
+kilpailu
+ottelu
+joukkue
+pelaaja
+voitto
+tappio
+historia
+kulttuuri
+taide
+tiede
+kirjailija
+taiteilija
+lehtimies
+toimittaja
+kuva
+valokuva
+näyttely
+konsertti
+teatteri
+esitys
+juhla
+syntymäpäivä
+joulu
+pääsiäinen
+lahja
+vieras
+naapuri
+kaveri
+tuttava
+pari
+vaimo
+aviomies
+tytär
+vauva
+isoäiti
+isoisä
+sukulainen
+ikä
+vuosisata
+tulevaisuus
+menneisyys
+nykyään
+aikaisin
+myöhään
+vuoro
+jono
+rivi
+numero
+summa
+kappale
+luku
+osoite
+puhelinnumero
+sähköposti
+henkilö
+ihmisoikeus
+kansa
+väestö
+kaupunginosa
+kylä
+alue
+raja
+pohjoinen
+etelä
+itä
+länsi
+keski
+ylä
+ala
+oikealla
+vasemmalla
+suoraan
+ylös
+alas
+sisään
+ulos
+pois
+takaisin
+eteenpäin
+taaksepäin
+kerros
+porras
+hissi
+katto
+lattia
+seinä
+valo
+ääni
+melu
+hiljaisuus
+haju
+maku
+muoto
+paino
+pituus
+leveys
+nopeus
+voima
+tarve
+halu
+tahto
+kyky
+taito
+tapaus
+tilaisuus
+ehto
+keino
+menetelmä
+malli
+suunnitelma
+projekti
+hanke
+idea
+teoria
+käsite
+merkitys
+arvo
+laatu
+taso
+vaihe
+prosessi
+rakenne
+sisältö
+aihe
+otsikko
+kohta
+kohde
+tila
+rooli
+suhde
+yhteys
+ero
+vaikutus
+seuraus
+hyöty
+haitta
+riski
+vaara
+apu
+tuki
+neuvo
+ohje
+sääntö
+järjestys
+luettelo
+lista`;
@@ -0,0 +1,220 @@
+import initSqlJs from "sql.js";
+import { SynthesizedSpeech } from "../types";
+import { RequestOptions } from "./requestScheduler";
+import { base64ToUint8Array } from "./ttsService";
+import { createZip, ZipFile } from "./zipService";
+import { ExportRow, formatTags } from "./vocabularyExport";
+
+// Must match the CDN and version the import map in index.html loads sql.js from
+const SQL_JS_DIST_URL = 'https://aistudiocdn.com/sql.js@1.14.2/dist';
+
+const FIELD_SEPARATOR = '\x1f';
+
+export type AnkiAudio = 'none' | 'word' | 'sentence' | 'both';
+
+export type AnkiExportOptions = {
+  deckName: string;
+  audio: AnkiAudio;
+  /** Called with the export's signal, so cancelling also cancels the synthesis in progress. */
+  getWordSpeech: (word: string, options: RequestOptions) => Promise<SynthesizedSpeech>;
+  getSentenceSpeech: (row: ExportRow, options: RequestOptions) => Promise<SynthesizedSpeech>;
+  /** Called after each note's media is ready. */
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+};
+
+const FIELDS = ['Finnish', 'Inflected', 'English', 'Sentence', 'WordAudio', 'SentenceAudio', 'Source'];
+
+const TEMPLATES = [
+  {
+    name: 'Finnish → English',
+    qfmt: '<div class="fi">{{Finnish}}</div>{{WordAudio}}',
+    afmt: '{{FrontSide}}<hr id="answer"><div class="en">{{English}}</div><div class="sentence">{{Sentence}}</div>{{SentenceAudio}}',
+  },
+  {
+    name: 'English → Finnish',
+    qfmt: '<div class="en">{{English}}</div>',
+    afmt: '{{FrontSide}}<hr id="answer"><div class="fi">{{Finnish}}</div>{{WordAudio}}<div class="sentence">{{Sentence}}</div>{{SentenceAudio}}',
+  },
+];
+
+const CSS = `.card { font-family: arial; font-size: 22px; text-align: center; color: black; background-color: white; }
+.fi { font-size: 32px; font-weight: bold; }
+.sentence { margin-top: 12px; font-style: italic; color: #555; }`;
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+let sqlPromise: ReturnType<typeof initSqlJs> | null = null;
+
+const loadSql = () => {
+  if (!sqlPromise) {
+    sqlPromise = initSqlJs({ locateFile: (file: string) => `${SQL_JS_DIST_URL}/${file}` }).catch(error => {
+      sqlPromise = null;
+      console.error("Failed to load sql.js:", error);
+      throw new Error(`Could not load the SQLite engine needed for Anki export from ${SQL_JS_DIST_URL}. Check your connection and try again.`);
+    });
+  }
+  return sqlPromise;
+};
+
+const sha1Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const mediaExtension = (mimeType: string): string =>
+  mimeType === 'audio/wav' ? 'wav' : mimeType.replace(/^audio\//, '').replace(/;.*$/, '') || 'bin';
+
+/**
+ * Makes a media file name Anki can store: no path separators or characters that
+ * are invalid on common file systems. The slug is truncated, so a hash of the full
+ * text keeps texts that share a prefix or differ only in punctuation apart.
+ */
+const mediaFileName = async (prefix: string, text: string, mimeType: string): Promise<string> => {
+  const slug = text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'audio';
+  const hash = (await sha1Hex(text)).slice(0, 8);
+  return `${prefix}-${slug}-${hash}.${mediaExtension(mimeType)}`;
+};
+
+const buildCollectionConfig = (now: number, modelId: number, deckId: number, deckName: string) => {
+  const seconds = Math.floor(now / 1000);
+  const conf = {
+    activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true,
+    dueCounts: true, curModel: String(modelId), nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true,
+  };
+  const models = {
+    [modelId]: {
+      id: modelId, name: 'Finnish Text Analyzer', type: 0, mod: seconds, usn: -1, sortf: 0, did: deckId,
+      tmpls: TEMPLATES.map((template, ord) => ({ ...template, ord, did: null, bqfmt: '', bafmt: '' })),
+      flds: FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      css: CSS,
+      latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      tags: [], vers: [],
+      // Template 0 needs Finnish, template 1 needs English
+      req: [[0, 'any', [0]], [1, 'any', [2]]],
+    },
+  };
+  const deck = (id: number, name: string) => ({
+    id, name, mod: seconds, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, extendNew: 10, extendRev: 50,
+    newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+  });
+  const decks = { 1: deck(1, 'Default'), [deckId]: deck(deckId, deckName) };
+  const dconf = {
+    1: {
+      id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+      new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+      rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, maxIvl: 36500, ivlFct: 1, bury: true, minSpace: 1 },
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    },
+  };
+  return { conf, models, decks, dconf };
+};
+
+/**
+ * Builds an Anki package (.apkg) with one note per row and two cards per note
+ * (Finnish → English and English → Finnish), optionally embedding word and sentence audio.
+ * Note GUIDs derive from the base form and translation, so importing an updated export
+ * into Anki updates the existing notes instead of duplicating them.
+ */
+export const createAnkiPackage = async (rows: ExportRow[], options: AnkiExportOptions): Promise<Blob> => {
+  const { deckName, audio, getWordSpeech, getSentenceSpeech, onProgress, signal } = options;
+  const media: ZipFile[] = [];
+  const mediaNames = new Map<string, string>(); // File name → zip entry number
+  const includeWord = audio === 'word' || audio === 'both';
+  const includeSentence = audio === 'sentence' || audio === 'both';
+
+  const addMedia = (name: string, speech: SynthesizedSpeech): string => {
+    if (!mediaNames.has(name)) {
+      const entry = String(media.length);
+      mediaNames.set(name, entry);
+      media.push({ name: entry, data: base64ToUint8Array(speech.data) });
+    }
+    return `[sound:${name}]`;
+  };
+
+  // Synthesize media first, so a failure or cancellation happens before any database work
+  const audioFields: { word: string; sentence: string }[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    if (signal?.aborted) throw new DOMException("Anki export was cancelled.", 'AbortError');
+    const row = rows[i];
+    const fields = { word: '', sentence: '' };
+    if (includeWord) {
+      const speech = await getWordSpeech(row.baseForm, { signal });
+      fields.word = addMedia(await mediaFileName('fi-word', row.baseForm, speech.mimeType), speech);
+    }
+    if (includeSentence && row.sentence) {
+      const speech = await getSentenceSpeech(row, { signal });
+      fields.sentence = addMedia(await mediaFileName('fi-sentence', row.sentence, speech.mimeType), speech);
+    }
+    audioFields.push(fields);
+    onProgress?.(i + 1, rows.length);
+  }
+
+  const SQL = await loadSql();
+  const db = new SQL.Database();
+  try {
+    db.run(SCHEMA);
+
+    const now = Date.now();
+    const seconds = Math.floor(now / 1000);
+    const modelId = now;
+    const deckId = now + 1;
+    const { conf, models, decks, dconf } = buildCollectionConfig(now, modelId, deckId, deckName);
+    db.run(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [seconds, now, now, JSON.stringify(conf), JSON.stringify(models), JSON.stringify(decks), JSON.stringify(dconf), '{}']
+    );
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const noteId = now + i;
+      const finnish = escapeHtml(row.baseForm);
+      const fields = [
+        finnish,
+        row.word !== row.baseForm ? escapeHtml(row.word) : '',
+        escapeHtml(row.translation),
+        escapeHtml(row.sentence),
+        audioFields[i].word,
+        audioFields[i].sentence,
+        escapeHtml(row.source),
+      ];
+      const guid = (await sha1Hex(`${row.baseForm}\n${row.translation}`)).slice(0, 16);
+      const checksum = parseInt((await sha1Hex(row.baseForm)).slice(0, 8), 16);
+      const tags = formatTags(row.tags);
+      insertNote.run([noteId, guid, modelId, seconds, tags ? ` ${tags} ` : '', fields.join(FIELD_SEPARATOR), finnish, checksum]);
+      TEMPLATES.forEach((_, ord) => {
+        insertCard.run([noteId * 10 + ord, noteId, deckId, ord, seconds, i + 1]);
+      });
+    }
+    insertNote.free();
+    insertCard.free();
+
+    const mediaManifest = Object.fromEntries(Array.from(mediaNames, ([name, entry]) => [entry, name]));
+    return createZip([
+      { name: 'collection.anki2', data: db.export() },
+      { name: 'media', data: new TextEncoder().encode(JSON.stringify(mediaManifest)) },
+      ...media,
+    ]);
+  } finally {
+    db.close();
+  }
+};
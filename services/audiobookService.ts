@@ -0,0 +1,148 @@
+import { SynthesizedSpeech } from "../types";
+import { TokenizedText } from "./tokenizer";
+import { base64ToUint8Array, createWavFile, parseWavFile } from "./ttsService";
+import { RequestOptions } from "./requestScheduler";
+
+export type CueFormat = 'vtt' | 'json';
+
+export type AudiobookOptions = {
+  /** Silence between sentences of the same paragraph, in milliseconds. */
+  sentencePauseMs: number;
+  /** Silence between paragraphs (sentences separated by a line break), in milliseconds. */
+  paragraphPauseMs: number;
+};
+
+/**
+ * Where a sentence is heard in the assembled audio, in seconds.
+ */
+export type AudioCue = {
+  sentenceId: number;
+  paragraph: number;
+  startTime: number;
+  endTime: number;
+  text: string;
+};
+
+export type Audiobook = {
+  wav: Blob;
+  cues: AudioCue[];
+  duration: number;
+};
+
+export const DEFAULT_AUDIOBOOK_OPTIONS: AudiobookOptions = {
+  sentencePauseMs: 400,
+  paragraphPauseMs: 1200,
+};
+
+/**
+ * Synthesizes every sentence and concatenates the clips into a single WAV file, with silence
+ * between sentences and longer silence between paragraphs.
+ * @param tokenized The analysed text; a line break between two sentences starts a new paragraph.
+ * @param getSpeech Returns the audio of a sentence, e.g. from the playback cache or by synthesizing it;
+ * it is given the export's signal so a cancelled export stops synthesizing.
+ * @param options Pause lengths.
+ * @param onProgress Called after each sentence with the number of sentences done.
+ * @param signal Aborts the export, including the sentence being synthesized.
+ */
+export const createAudiobook = async (
+  tokenized: TokenizedText,
+  getSpeech: (sentenceId: number, options: RequestOptions) => Promise<SynthesizedSpeech>,
+  options: AudiobookOptions = DEFAULT_AUDIOBOOK_OPTIONS,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Audiobook> => {
+  const { sentences, text } = tokenized;
+  if (sentences.length === 0) throw new Error("There is no text to export.");
+
+  const parts: Uint8Array[] = [];
+  const cues: AudioCue[] = [];
+  let format: { sampleRate: number; bitsPerSample: number } | null = null;
+  let byteLength = 0;
+  let paragraph = 0;
+
+  const bytesPerSecond = () => format!.sampleRate * (format!.bitsPerSample / 8);
+  const appendSilence = (ms: number) => {
+    const blockAlign = format!.bitsPerSample / 8;
+    const length = Math.round((ms / 1000) * format!.sampleRate) * blockAlign;
+    if (length <= 0) return;
+    parts.push(new Uint8Array(length)); // Zero samples are silence in signed PCM
+    byteLength += length;
+  };
+
+  for (const sentence of sentences) {
+    if (signal?.aborted) throw new DOMException("Audiobook export was cancelled.", 'AbortError');
+
+    const speech = await getSpeech(sentence.id, { signal });
+    if (speech.mimeType !== 'audio/wav') {
+      throw new Error(`Cannot join ${speech.mimeType} clips; only WAV audio can be exported.`);
+    }
+    const clip = parseWavFile(base64ToUint8Array(speech.data));
+    if (!format) {
+      format = { sampleRate: clip.sampleRate, bitsPerSample: clip.bitsPerSample };
+    } else if (clip.sampleRate !== format.sampleRate || clip.bitsPerSample !== format.bitsPerSample) {
+      throw new Error("Sentence clips have different audio formats and cannot be joined.");
+    }
+
+    if (sentence.id > 0) {
+      const gap = text.slice(sentences[sentence.id - 1].end, sentence.start);
+      const isNewParagraph = gap.includes('\n');
+      if (isNewParagraph) paragraph++;
+      appendSilence(isNewParagraph ? options.paragraphPauseMs : options.sentencePauseMs);
+    }
+
+    const startTime = byteLength / bytesPerSecond();
+    parts.push(clip.pcmData);
+    byteLength += clip.pcmData.length;
+    cues.push({
+      sentenceId: sentence.id,
+      paragraph,
+      startTime,
+      endTime: byteLength / bytesPerSecond(),
+      text: sentence.text.replace(/\s+/g, ' ').trim(),
+    });
+    onProgress?.(sentence.id + 1, sentences.length);
+  }
+
+  const pcmData = new Uint8Array(byteLength);
+  let offset = 0;
+  for (const part of parts) {
+    pcmData.set(part, offset);
+    offset += part.length;
+  }
+
+  return {
+    wav: new Blob([createWavFile(pcmData, format!.sampleRate, format!.bitsPerSample)], { type: 'audio/wav' }),
+    cues,
+    duration: byteLength / bytesPerSecond(),
+  };
+};
+
+/**
+ * Formats seconds as a WebVTT timestamp (hh:mm:ss.ttt).
+ */
+const formatTimestamp = (seconds: number): string => {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+};
+
+/**
+ * Serializes cues as WebVTT, one cue per sentence identified as "p<paragraph>-s<sentence>".
+ */
+export const formatWebVtt = (cues: AudioCue[]): string => {
+  const blocks = cues.map(cue =>
+    // "-->" may not appear in cue text
+    `p${cue.paragraph + 1}-s${cue.sentenceId + 1}\n${formatTimestamp(cue.startTime)} --> ${formatTimestamp(cue.endTime)}\n${cue.text.replace(/-->/g, '->')}`
+  );
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+};
+
+/**
+ * Serializes cues as JSON, with times in seconds.
+ */
+export const formatCueJson = (cues: AudioCue[], duration: number): string =>
+  JSON.stringify({ duration, cues }, null, 2);
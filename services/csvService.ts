@@ -0,0 +1,61 @@
+/**
+ * Formats rows as delimiter-separated values (RFC 4180 quoting), one record per line.
+ * Fields containing the delimiter, quotes or line breaks are quoted.
+ */
+export const formatDelimited = (rows: string[][], delimiter: ',' | '\t'): string =>
+  rows.map(row =>
+    row.map(field => /["\r\n]/.test(field) || field.includes(delimiter) ? `"${field.replace(/"/g, '""')}"` : field).join(delimiter)
+  ).join('\r\n') + '\r\n';
+
+/**
+ * Parses delimiter-separated values, honouring quoted fields with embedded delimiters,
+ * doubled quotes and line breaks. Blank lines are skipped.
+ */
+export const parseDelimited = (text: string, delimiter: ',' | '\t'): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, ''); // Spreadsheet apps often prepend a byte order mark
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+/**
+ * Guesses whether a file is tab- or comma-separated from its first line.
+ */
+export const detectDelimiter = (text: string): ',' | '\t' => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  return firstLine.includes('\t') ? '\t' : ',';
+};
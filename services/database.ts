@@ -0,0 +1,99 @@
+const DB_NAME = 'finnish-text-analyser';
+
+/**
+ * Object store names. Each store is created by the schema upgrade for the
+ * database version that introduced it (see `UPGRADES`).
+ */
+export const STORES = {
+    translations: 'translations',
+    vocabulary: 'vocabulary',
+    reviewCards: 'reviewCards',
+    reviewLog: 'reviewLog',
+    wordStatuses: 'wordStatuses',
+    documents: 'documents',
+} as const;
+
+/**
+ * Schema upgrades, one per database version. `UPGRADES[n]` migrates from version n to n + 1.
+ * Append new upgrades; never edit existing ones, as browsers may already be on that version.
+ */
+const UPGRADES: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+    // v1: persistent translation cache, evicted by last access time.
+    (db) => {
+        const store = db.createObjectStore(STORES.translations, { keyPath: 'key' });
+        store.createIndex('lastAccessed', 'lastAccessed');
+    },
+    // v2: vocabulary notebook.
+    (db) => {
+        const store = db.createObjectStore(STORES.vocabulary, { keyPath: 'id' });
+        store.createIndex('baseForm', 'baseForm');
+    },
+    // v3: spaced-repetition cards per notebook entry and card type, and the history of reviews.
+    (db) => {
+        const cards = db.createObjectStore(STORES.reviewCards, { keyPath: 'id' });
+        cards.createIndex('due', 'due');
+        cards.createIndex('entryId', 'entryId');
+        const log = db.createObjectStore(STORES.reviewLog, { keyPath: 'id', autoIncrement: true });
+        log.createIndex('reviewedAt', 'reviewedAt');
+    },
+    // v4: known-word status per lemma; lemmas without a record are new.
+    (db) => {
+        db.createObjectStore(STORES.wordStatuses, { keyPath: 'lemma' });
+    },
+    // v5: library of saved texts with their translations and reading position.
+    (db) => {
+        const store = db.createObjectStore(STORES.documents, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+    },
+];
+
+const DB_VERSION = UPGRADES.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the app's IndexedDB database, running any pending schema upgrades.
+ * The connection is shared; a failed open is not cached so it can be retried.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not available in this browser."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const transaction = request.transaction!;
+                for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                    UPGRADES[version](request.result, transaction);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).catch(error => {
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Resolves when a transaction commits, rejects if it fails or is aborted.
+ */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error("Transaction aborted."));
+    });
@@ -0,0 +1,371 @@
+import { CompoundPart, ContextualTranslation, FinnishCase, GrammaticalNumber, InflectionClass, InflectionTable, TranslationProvider, WordAnalysis, WordOccurrence, WordTranslation } from "../types";
+import { BASIC_DICTIONARY_TSV } from "../data/basicDictionary";
+import { getOccurrenceKey } from "./wordOccurrences";
+import { generateInflectionTable } from "./inflectionGenerator";
+
+const STORAGE_KEY = 'finnish-analyser.dictionary';
+
+export type DictionaryEntry = {
+  translations: string[];
+  partOfSpeech?: string;
+};
+
+export type DictionaryFormat = 'tsv' | 'json';
+
+/**
+ * Adds senses for a word to a dictionary map, merging with any existing entry.
+ */
+const addEntry = (entries: Map<string, DictionaryEntry>, word: string, translations: string[], partOfSpeech?: string) => {
+  const key = word.trim().toLowerCase();
+  const senses = translations.map(t => t.trim()).filter(Boolean);
+  if (!key || senses.length === 0) return;
+
+  const existing = entries.get(key);
+  if (existing) {
+    for (const sense of senses) {
+      if (!existing.translations.includes(sense)) existing.translations.push(sense);
+    }
+    existing.partOfSpeech = existing.partOfSpeech || partOfSpeech;
+  } else {
+    entries.set(key, { translations: senses, partOfSpeech: partOfSpeech || undefined });
+  }
+};
+
+/**
+ * Reads one JSON dictionary record. Accepts `{ word, translation }`, `{ word, translations: [] }`
+ * and Wiktionary extracts in the kaikki.org shape `{ word, pos, senses: [{ glosses: [] }] }`.
+ */
+const addJsonRecord = (entries: Map<string, DictionaryEntry>, record: unknown) => {
+  if (typeof record !== 'object' || record === null) return;
+  const { word, translation, translations: senseList, senses, pos } = record as Record<string, unknown>;
+  if (typeof word !== 'string') return;
+  const isString = (value: unknown): value is string => typeof value === 'string';
+  const translations: string[] = [];
+  if (isString(translation)) translations.push(translation);
+  if (Array.isArray(senseList)) translations.push(...senseList.filter(isString));
+  if (Array.isArray(senses)) {
+    for (const sense of senses) {
+      const glosses = typeof sense === 'object' && sense !== null ? (sense as { glosses?: unknown }).glosses : undefined;
+      if (Array.isArray(glosses)) translations.push(...glosses.filter(isString));
+    }
+  }
+  addEntry(entries, word, translations, isString(pos) ? pos : undefined);
+};
+
+/**
+ * Parses a Finnish–English word list.
+ * TSV: one `finnish<TAB>english[<TAB>part of speech]` per line, senses separated by ";", "#" starts a comment.
+ * JSON: an object mapping words to a string or string array, an array of records, or JSON Lines of records.
+ * @param text The raw file contents.
+ * @param format The format of the file.
+ * @returns The parsed entries keyed by lowercased Finnish word.
+ */
+export const parseDictionary = (text: string, format: DictionaryFormat): Map<string, DictionaryEntry> => {
+  const entries = new Map<string, DictionaryEntry>();
+
+  if (format === 'tsv') {
+    for (const line of text.split(/\r?\n/)) {
+      if (!line.trim() || line.startsWith('#')) continue;
+      const [word, english, partOfSpeech] = line.split('\t');
+      if (!word || !english) continue;
+      addEntry(entries, word, english.split(';'), partOfSpeech?.trim());
+    }
+    return entries;
+  }
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') && !trimmed.includes('\n{')) {
+    const data = JSON.parse(trimmed);
+    if (typeof data.word === 'string') {
+      addJsonRecord(entries, data);
+    } else {
+      for (const [word, value] of Object.entries(data)) {
+        if (typeof value === 'string') addEntry(entries, word, value.split(';'));
+        else if (Array.isArray(value)) addEntry(entries, word, value.filter((v): v is string => typeof v === 'string'));
+      }
+    }
+  } else if (trimmed.startsWith('[')) {
+    for (const record of JSON.parse(trimmed)) addJsonRecord(entries, record);
+  } else {
+    // JSON Lines, as produced by Wiktionary extraction tools.
+    for (const line of trimmed.split(/\r?\n/)) {
+      if (line.trim()) addJsonRecord(entries, JSON.parse(line));
+    }
+  }
+  return entries;
+};
+
+// --- Inflection stripping for lookups of inflected forms ---
+
+export type Candidate = {
+  baseForm: string;
+  case?: FinnishCase;
+  number?: GrammaticalNumber;
+  possessiveSuffix?: string;
+  clitics: string[];
+};
+
+const CLITICS = ['kaan', 'kään', 'kin', 'han', 'hän', 'pa', 'pä', 'ko', 'kö'];
+
+const POSSESSIVE_SUFFIXES: [string, string][] = [
+  ['mme', '-mme (our)'],
+  ['nne', '-nne (your, plural)'],
+  ['nsa', '-nsa (his/her/their)'],
+  ['nsä', '-nsä (his/her/their)'],
+  ['ni', '-ni (my)'],
+  ['si', '-si (your)'],
+];
+
+// Longer endings come first so "-ssa" is tried before "-a".
+const CASE_ENDINGS: [string, FinnishCase][] = [
+  ['seen', 'illative'],
+  ['ssa', 'inessive'], ['ssä', 'inessive'],
+  ['sta', 'elative'], ['stä', 'elative'],
+  ['lla', 'adessive'], ['llä', 'adessive'],
+  ['lta', 'ablative'], ['ltä', 'ablative'],
+  ['lle', 'allative'],
+  ['ksi', 'translative'],
+  ['tta', 'abessive'], ['ttä', 'abessive'],
+  ['ine', 'comitative'],
+  ['na', 'essive'], ['nä', 'essive'],
+  ['ta', 'partitive'], ['tä', 'partitive'],
+  ['n', 'genitive'],
+  ['t', 'nominative'],
+  ['a', 'partitive'], ['ä', 'partitive'],
+];
+
+/**
+ * Generates possible base forms of an inflected word by peeling off, in order,
+ * a clitic, a possessive suffix, a case ending and a plural marker.
+ * This is a heuristic: it ignores consonant gradation and stem changes,
+ * so it only finds words whose stem equals their dictionary form (e.g. "talossanikin" → "talo").
+ */
+export const candidateBaseForms = (word: string): Candidate[] => {
+  const candidates: Candidate[] = [{ baseForm: word, clitics: [] }];
+
+  const withoutClitics: Candidate[] = [{ baseForm: word, clitics: [] }];
+  for (const clitic of CLITICS) {
+    if (word.length > clitic.length + 1 && word.endsWith(clitic)) {
+      withoutClitics.push({ baseForm: word.slice(0, -clitic.length), clitics: [`-${clitic}`] });
+    }
+  }
+
+  const withoutPossessives: Candidate[] = [...withoutClitics];
+  for (const candidate of withoutClitics) {
+    for (const [suffix, label] of POSSESSIVE_SUFFIXES) {
+      if (candidate.baseForm.length > suffix.length + 1 && candidate.baseForm.endsWith(suffix)) {
+        withoutPossessives.push({ ...candidate, baseForm: candidate.baseForm.slice(0, -suffix.length), possessiveSuffix: label });
+      }
+    }
+  }
+
+  for (const candidate of withoutPossessives) {
+    if (candidate !== withoutPossessives[0]) candidates.push(candidate);
+    for (const [ending, grammaticalCase] of CASE_ENDINGS) {
+      const stem = candidate.baseForm;
+      if (stem.length <= ending.length + 1 || !stem.endsWith(ending)) continue;
+      const bare = stem.slice(0, -ending.length);
+      const isPluralNominative = ending === 't';
+      candidates.push({ ...candidate, baseForm: bare, case: grammaticalCase, number: isPluralNominative ? 'plural' : 'singular' });
+      // Plural stems insert -i- (or -j- between vowels) before the case ending.
+      if (!isPluralNominative && /[ij]$/.test(bare) && bare.length > 2) {
+        candidates.push({ ...candidate, baseForm: bare.slice(0, -1), case: grammaticalCase, number: 'plural' });
+      }
+    }
+  }
+
+  return candidates;
+};
+
+// --- Compound splitting ---
+
+/** Shorter parts match too many words by accident. */
+const MIN_PART_LENGTH = 3;
+
+/**
+ * Splits a compound into words of the lexicon, e.g. "kansanedustajavaalit" into
+ * kansan + edustaja + vaalit. Earlier parts must be a dictionary form or its genitive
+ * ("kansan"); the last part may be inflected. The split with the fewest parts wins.
+ * Like `candidateBaseForms` this ignores stem changes, so it misses parts such as "ihmis-".
+ * @param word The lowercased word.
+ * @param entries The lexicon, keyed by lowercased dictionary form.
+ * @returns The parts in order, or null if the word cannot be split into two or more known words.
+ */
+export const findCompoundParts = (word: string, entries: Map<string, DictionaryEntry>): CompoundPart[] | null => {
+  const toPart = (surface: string, baseForm: string): CompoundPart | null => {
+    const entry = entries.get(baseForm);
+    return entry && baseForm.length >= MIN_PART_LENGTH ? { surface, baseForm, gloss: entry.translations[0] } : null;
+  };
+  const toModifier = (surface: string): CompoundPart | null =>
+    toPart(surface, surface) || (surface.endsWith('n') ? toPart(surface, surface.slice(0, -1)) : null);
+  const toHead = (surface: string): CompoundPart | null => {
+    for (const candidate of candidateBaseForms(surface)) {
+      const part = toPart(surface, candidate.baseForm);
+      if (part) return part;
+    }
+    return null;
+  };
+
+  // prefixes[i]: the fewest modifier parts that exactly cover word.slice(0, i)
+  const prefixes: (CompoundPart[] | null)[] = new Array(word.length + 1).fill(null);
+  prefixes[0] = [];
+  for (let start = 0; start <= word.length - 2 * MIN_PART_LENGTH; start++) {
+    const prefix = prefixes[start];
+    if (!prefix) continue;
+    for (let end = start + MIN_PART_LENGTH; end <= word.length - MIN_PART_LENGTH; end++) {
+      const part = toModifier(word.slice(start, end));
+      if (part && (!prefixes[end] || prefixes[end]!.length > prefix.length + 1)) prefixes[end] = [...prefix, part];
+    }
+  }
+
+  let best: CompoundPart[] | null = null;
+  for (let start = MIN_PART_LENGTH; start <= word.length - MIN_PART_LENGTH; start++) {
+    const prefix = prefixes[start];
+    if (!prefix || (best && best.length <= prefix.length + 1)) continue;
+    const head = toHead(word.slice(start));
+    if (head) best = [...prefix, head];
+  }
+  return best;
+};
+
+/**
+ * Creates a translation provider that looks words up in an in-memory word list.
+ * Inflected forms are reduced to candidate base forms before lookup.
+ * With a fixed list of entries this also serves as a deterministic fake provider for offline development.
+ * @param initialEntries The dictionary entries keyed by lowercased Finnish word.
+ * @param options Identity of the provider, used in the selector and in cache keys.
+ */
+export const createDictionaryProvider = (
+  initialEntries: Map<string, DictionaryEntry>,
+  options: { id?: string; name?: string; model?: string } = {}
+) => {
+  let entries = initialEntries;
+
+  const lookup = (word: string): { candidate: Candidate; entry: DictionaryEntry } | null => {
+    const normalized = word.replace(/[.,!?;:)"'”\]`]*$/, '').toLowerCase();
+    for (const candidate of candidateBaseForms(normalized)) {
+      const entry = entries.get(candidate.baseForm);
+      if (entry) return { candidate, entry };
+    }
+    return null;
+  };
+
+  const toAnalysis = (candidate: Candidate, entry: DictionaryEntry): WordAnalysis => ({
+    baseForm: candidate.baseForm,
+    partOfSpeech: entry.partOfSpeech || 'unknown',
+    // Only nominals inflect for case; a stripped "ending" on a verb is a coincidence.
+    case: entry.partOfSpeech === 'verb' ? undefined : candidate.case,
+    number: entry.partOfSpeech === 'verb' ? undefined : candidate.number,
+    possessiveSuffix: candidate.possessiveSuffix,
+    clitics: candidate.clitics,
+  });
+
+  const provider: TranslationProvider & {
+    setEntries: (next: Map<string, DictionaryEntry>) => void;
+    getSize: () => number;
+  } = {
+    id: options.id || 'dictionary',
+    name: options.name || 'Offline dictionary',
+    model: options.model,
+    cacheable: false,
+    isAvailable: () => entries.size > 0,
+
+    // A word list cannot tell senses apart, so the first listed sense stands in for the in-context meaning.
+    translateWord: async (word: string): Promise<WordTranslation> => {
+      const match = lookup(word);
+      if (!match) {
+        throw new Error(`"${word}" is not in the dictionary.`);
+      }
+      const [translation, ...senses] = match.entry.translations;
+      return {
+        translation,
+        senses,
+        analysis: toAnalysis(match.candidate, match.entry),
+      };
+    },
+
+    translateWordsBatch: async (occurrences: WordOccurrence[]): Promise<Map<string, ContextualTranslation>> => {
+      const translationMap = new Map<string, ContextualTranslation>();
+      for (const { word, sentenceId } of occurrences) {
+        const match = lookup(word);
+        if (match) {
+          const [translation, ...senses] = match.entry.translations;
+          translationMap.set(getOccurrenceKey(sentenceId, word), { translation, senses });
+        }
+      }
+      return translationMap;
+    },
+
+    // Idiomatic sentence translation needs a language model; let the registry fall back.
+    translateText: async (): Promise<string> => {
+      throw new Error("The offline dictionary cannot translate whole sentences.");
+    },
+
+    translateSentences: async (): Promise<string[]> => {
+      throw new Error("The offline dictionary cannot translate whole sentences.");
+    },
+
+    splitCompound: async (word: string): Promise<CompoundPart[] | null> =>
+      findCompoundParts(word.replace(/[.,!?;:)"'”\]`]*$/, '').toLowerCase(), entries),
+
+    // Rule-based, so only regular words get a table; the registry asks the next provider for the rest.
+    inflect: async (baseForm: string, inflectionClass: InflectionClass): Promise<InflectionTable | null> =>
+      generateInflectionTable(baseForm, inflectionClass),
+
+    setEntries: (next: Map<string, DictionaryEntry>) => {
+      entries = next;
+    },
+    getSize: () => entries.size,
+  };
+
+  return provider;
+};
+
+/**
+ * Loads the user's imported word list from local storage, or the bundled list if none was imported.
+ */
+const loadStoredEntries = (): Map<string, DictionaryEntry> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return new Map<string, DictionaryEntry>(JSON.parse(stored));
+    }
+  } catch (error) {
+    console.warn("Could not load the imported dictionary, using the bundled word list:", error);
+  }
+  return parseDictionary(BASIC_DICTIONARY_TSV, 'tsv');
+};
+
+/**
+ * The app-wide offline dictionary provider.
+ */
+export const dictionaryProvider = createDictionaryProvider(loadStoredEntries());
+
+/**
+ * Replaces the offline dictionary with an imported word list and persists it for future sessions.
+ * @param text The raw file contents.
+ * @param format The file format.
+ * @returns The number of words loaded.
+ */
+export const importDictionary = (text: string, format: DictionaryFormat): number => {
+  const entries = parseDictionary(text, format);
+  if (entries.size === 0) {
+    throw new Error("No dictionary entries found in the file.");
+  }
+  dictionaryProvider.setEntries(entries);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(entries.entries())));
+  } catch (error) {
+    // Large word lists may exceed the storage quota; keep them for this session only.
+    console.warn("Imported dictionary is too large to persist:", error);
+  }
+  return entries.size;
+};
+
+/**
+ * Restores the bundled word list, discarding any imported dictionary.
+ */
+export const resetDictionary = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+  dictionaryProvider.setEntries(parseDictionary(BASIC_DICTIONARY_TSV, 'tsv'));
+};
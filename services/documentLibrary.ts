@@ -0,0 +1,96 @@
+import { LibraryDocument, LibraryDocumentSummary } from "../types";
+import { openDatabase, requestToPromise, transactionDone, STORES } from "./database";
+
+export type NewLibraryDocument = Pick<LibraryDocument, 'title' | 'source' | 'html' | 'text' | 'sentenceCount'>;
+
+/** The parts of a document that change while it is being read. */
+export type LibraryDocumentChanges = Partial<Pick<LibraryDocument,
+  'title' | 'translations' | 'analyses' | 'sentenceTranslations' | 'lastSentenceIndex'>>;
+
+const toSummary = ({ html, translations, analyses, sentenceTranslations, ...rest }: LibraryDocument): LibraryDocumentSummary => ({
+  ...rest,
+  translatedCount: translations.size,
+});
+
+/**
+ * Returns a summary of every saved document, most recently used first.
+ */
+export const getDocumentSummaries = async (): Promise<LibraryDocumentSummary[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.documents, 'readonly');
+  const documents = await requestToPromise<LibraryDocument[]>(transaction.objectStore(STORES.documents).getAll());
+  return documents.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Loads a saved document with its translations, marking it as used now.
+ * @returns The document, or null if it has been deleted.
+ */
+export const openDocument = async (id: string): Promise<LibraryDocument | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.documents, 'readwrite');
+  const store = transaction.objectStore(STORES.documents);
+  const document = await requestToPromise<LibraryDocument | undefined>(store.get(id));
+  if (!document) {
+    await transactionDone(transaction);
+    return null;
+  }
+  const opened = { ...document, updatedAt: Date.now() };
+  store.put(opened);
+  await transactionDone(transaction);
+  return opened;
+};
+
+/**
+ * Saves a newly analysed text to the library, with no translations yet.
+ */
+export const addDocument = async (input: NewLibraryDocument): Promise<LibraryDocument> => {
+  const now = Date.now();
+  const document: LibraryDocument = {
+    ...input,
+    id: crypto.randomUUID(),
+    title: input.title.trim() || 'Untitled',
+    translations: new Map(),
+    analyses: new Map(),
+    sentenceTranslations: new Map(),
+    lastSentenceIndex: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.documents, 'readwrite');
+  transaction.objectStore(STORES.documents).put(document);
+  await transactionDone(transaction);
+  return document;
+};
+
+/**
+ * Stores changes to a saved document, refreshing its modification time.
+ * Does nothing if the document has been deleted in the meantime.
+ */
+export const updateDocument = async (id: string, changes: LibraryDocumentChanges): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.documents, 'readwrite');
+  const store = transaction.objectStore(STORES.documents);
+  const document = await requestToPromise<LibraryDocument | undefined>(store.get(id));
+  if (document) {
+    store.put({ ...document, ...changes, updatedAt: Date.now() });
+  }
+  await transactionDone(transaction);
+};
+
+export const deleteDocument = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.documents, 'readwrite');
+  transaction.objectStore(STORES.documents).delete(id);
+  await transactionDone(transaction);
+};
+
+/**
+ * Whether a document's title, source or text contains the query (case-insensitive).
+ */
+export const matchesDocumentQuery = (document: LibraryDocumentSummary, query: string): boolean => {
+  if (!query) return true;
+  const needle = query.toLowerCase();
+  return [document.title, document.source, document.text].some(field => field.toLowerCase().includes(needle));
+};
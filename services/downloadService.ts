@@ -0,0 +1,17 @@
+/**
+ * Triggers a browser download of a Blob.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Triggers a browser download of a text file.
+ */
+export const downloadText = (text: string, filename: string, mimeType: string) =>
+  downloadBlob(new Blob([text], { type: mimeType }), filename);
@@ -0,0 +1,298 @@
+import { CaseExercise, ClozeExercise, ContextualTranslation, DictationExercise, Exercise, ExerciseResult, ExerciseType, ReorderExercise, WordAnalysis } from "../types";
+import { Sentence, Token, TokenizedText } from "./tokenizer";
+import { getOccurrenceKey } from "./wordOccurrences";
+import { cellHasForm, generateInflectionTable, MISSING_FORM, NOUN_CASES } from "./inflectionGenerator";
+
+export const EXERCISE_TYPE_LABELS: Record<ExerciseType, string> = {
+  'cloze': 'Cloze',
+  'case': 'Case endings',
+  'reorder': 'Word order',
+  'dictation': 'Dictation',
+};
+
+export const EXERCISE_TYPES = Object.keys(EXERCISE_TYPE_LABELS) as ExerciseType[];
+
+export type ExerciseOptions = {
+  /** The most exercises generated of each type. */
+  perType: number;
+  /** How many wrong forms a case drill offers besides the right one. */
+  caseDistractors: number;
+};
+
+export const DEFAULT_EXERCISE_OPTIONS: ExerciseOptions = {
+  perType: 5,
+  caseDistractors: 3,
+};
+
+export type ExerciseSource = {
+  tokenized: TokenizedText;
+  /** Translations and analyses by occurrence key (see getOccurrenceKey). */
+  translations: Map<string, ContextualTranslation>;
+  analyses: Map<string, WordAnalysis | null>;
+  sentenceTranslations: Map<number, string>;
+};
+
+export type DiffSegment = {
+  /** "missing" text was in the sentence but not typed; "extra" text was typed but not in the sentence. */
+  kind: 'equal' | 'missing' | 'extra';
+  text: string;
+};
+
+export type ExerciseTypeSummary = {
+  attempted: number;
+  correct: number;
+  /** The mean score of the attempted exercises, or 0 if there were none. */
+  score: number;
+};
+
+// Reordering and dictation use sentences of a manageable length
+const MIN_SENTENCE_WORDS = 3;
+const MAX_REORDER_WORDS = 10;
+const MAX_DICTATION_WORDS = 15;
+
+const MIN_CLOZE_WORD_LENGTH = 4;
+const CONTENT_PARTS_OF_SPEECH = ['noun', 'verb', 'adjective', 'adverb'];
+
+// Frequent function words of four letters or more, not worth a gap when the word has no analysis
+const FUNCTION_WORDS = new Set([
+  'että', 'mutta', 'koska', 'jotta', 'vaikka', 'joka', 'jotka', 'jonka', 'joiden', 'joita', 'jossa', 'mikä', 'mitkä', 'mitä',
+  'olla', 'ovat', 'olen', 'olet', 'olemme', 'olette', 'olivat', 'eivät', 'emme', 'ette',
+  'myös', 'vain', 'niin', 'kuin', 'sekä', 'sitten', 'vielä', 'aina', 'kanssa', 'ilman',
+  'minä', 'sinä', 'hänen', 'heidän', 'meidän', 'teidän', 'minun', 'sinun', 'tämä', 'tämän', 'nämä', 'näiden', 'sitä', 'siitä', 'siinä',
+]);
+
+const normalize = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase().normalize('NFC');
+
+/** Lowercase letters, digits and single spaces only, so dictation is not failed for a missing comma. */
+const normalizeDictation = (value: string): string =>
+  normalize(value).replace(/[^\p{L}\p{M}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const pickRandom = <T>(items: T[], random: () => number): T | undefined =>
+  items.length > 0 ? items[Math.floor(random() * items.length)] : undefined;
+
+/**
+ * Splits a sentence around a word, collapsing the line breaks of the text into spaces.
+ */
+const getGap = (sentence: Sentence, token: Token): { before: string; after: string } => ({
+  before: sentence.text.slice(0, token.start - sentence.start).replace(/\s+/g, ' ').trimStart(),
+  after: sentence.text.slice(token.end - sentence.start).replace(/\s+/g, ' ').trimEnd(),
+});
+
+const isContentWord = (token: Token, analysis: WordAnalysis | null | undefined): boolean => {
+  if (analysis) return CONTENT_PARTS_OF_SPEECH.includes(analysis.partOfSpeech.toLowerCase());
+  return token.text.length >= MIN_CLOZE_WORD_LENGTH && !FUNCTION_WORDS.has(token.text.toLowerCase());
+};
+
+/**
+ * The wrong options of a case drill: other case forms of the noun in the same number,
+ * from the offline inflection generator. Returns null when the generator does not cover
+ * the noun or disagrees with the form in the text, so a drill never has two right answers.
+ */
+const getCaseDistractors = (token: Token, analysis: WordAnalysis, count: number, random: () => number): string[] | null => {
+  const table = generateInflectionTable(analysis.baseForm, 'noun');
+  const rows = table?.sections[0].rows;
+  if (!rows || !analysis.case || !analysis.number) return null;
+  const column = analysis.number === 'plural' ? 1 : 0;
+  const row = rows.find(r => r.label.toLowerCase() === analysis.case);
+  if (!row || !cellHasForm(row.cells[column], token.text)) return null;
+
+  const forms = rows
+    .map(r => r.cells[column].split(' / ')[0])
+    .filter((form, i, all) => form !== MISSING_FORM && all.indexOf(form) === i && !cellHasForm(row.cells[column], form));
+  return forms.length >= count ? shuffle(forms, random).slice(0, count) : null;
+};
+
+/**
+ * Generates practice exercises from the analysed text: cloze gaps for content words, case
+ * ending drills for analysed nouns, sentences to reorder and sentences for dictation. Each
+ * sentence is used at most once per type, and sentences are picked at random across the text.
+ * Case drills only use words whose analysis has been loaded, since they need the case.
+ * @param source The tokenized text (whose sentences are the ones read aloud) with its lookups.
+ * @param options How many exercises to generate.
+ * @param random Source of randomness, replaceable for deterministic output.
+ * @returns The exercises, grouped by type in the order of EXERCISE_TYPES.
+ */
+export const generateExercises = (
+  source: ExerciseSource,
+  options: Partial<ExerciseOptions> = {},
+  random: () => number = Math.random
+): Exercise[] => {
+  const { perType, caseDistractors } = { ...DEFAULT_EXERCISE_OPTIONS, ...options };
+  const { tokenized, translations, analyses, sentenceTranslations } = source;
+  const wordsBySentence = new Map<number, Token[]>();
+  for (const token of tokenized.tokens) {
+    if (token.type !== 'word' || token.sentenceId < 0) continue;
+    const words = wordsBySentence.get(token.sentenceId) || [];
+    words.push(token);
+    wordsBySentence.set(token.sentenceId, words);
+  }
+  const sentences = shuffle(tokenized.sentences, random);
+
+  const cloze: ClozeExercise[] = [];
+  const cases: CaseExercise[] = [];
+  const reorder: ReorderExercise[] = [];
+  const dictation: DictationExercise[] = [];
+
+  for (const sentence of sentences) {
+    const words = wordsBySentence.get(sentence.id) || [];
+    const getAnalysis = (token: Token) => analyses.get(getOccurrenceKey(sentence.id, token.text));
+
+    if (cloze.length < perType) {
+      const token = pickRandom(words.filter(w => isContentWord(w, getAnalysis(w))), random);
+      if (token) {
+        cloze.push({
+          id: `cloze:${sentence.id}`,
+          type: 'cloze',
+          sentenceId: sentence.id,
+          ...getGap(sentence, token),
+          answer: token.text,
+          hint: translations.get(getOccurrenceKey(sentence.id, token.text))?.translation,
+        });
+      }
+    }
+
+    if (cases.length < perType) {
+      const drills = words.flatMap(token => {
+        const analysis = getAnalysis(token);
+        if (!analysis?.case || !analysis.number || analysis.case === 'nominative') return [];
+        const distractors = getCaseDistractors(token, analysis, caseDistractors, random);
+        return distractors ? [{ token, analysis, distractors }] : [];
+      });
+      const drill = pickRandom(drills, random);
+      if (drill) {
+        const { token, analysis, distractors } = drill;
+        cases.push({
+          id: `case:${sentence.id}`,
+          type: 'case',
+          sentenceId: sentence.id,
+          ...getGap(sentence, token),
+          answer: token.text,
+          baseForm: analysis.baseForm,
+          grammaticalCase: analysis.case!,
+          number: analysis.number!,
+          options: shuffle([token.text.toLowerCase(), ...distractors], random),
+        });
+      }
+    }
+
+    const chunks = sentence.text.trim().split(/\s+/).filter(Boolean);
+    if (reorder.length < perType && chunks.length >= MIN_SENTENCE_WORDS && chunks.length <= MAX_REORDER_WORDS) {
+      // Reshuffled until the order differs, unless every word is the same
+      let shuffled = shuffle(chunks, random);
+      for (let attempt = 0; attempt < 5 && shuffled.join(' ') === chunks.join(' '); attempt++) shuffled = shuffle(chunks, random);
+      if (shuffled.join(' ') !== chunks.join(' ')) {
+        reorder.push({
+          id: `reorder:${sentence.id}`,
+          type: 'reorder',
+          sentenceId: sentence.id,
+          words: chunks,
+          shuffled,
+          translation: sentenceTranslations.get(sentence.id),
+        });
+      }
+    }
+
+    if (dictation.length < perType && words.length >= MIN_SENTENCE_WORDS && words.length <= MAX_DICTATION_WORDS) {
+      dictation.push({ id: `dictation:${sentence.id}`, type: 'dictation', sentenceId: sentence.id, sentence: chunks.join(' ') });
+    }
+  }
+
+  const byType: Record<ExerciseType, Exercise[]> = { cloze, case: cases, reorder, dictation };
+  return EXERCISE_TYPES.flatMap(type => byType[type]);
+};
+
+/**
+ * Whether a typed or chosen answer fills a gap, ignoring case and surrounding spaces.
+ */
+export const isGapAnswerCorrect = (exercise: ClozeExercise | CaseExercise, answer: string): boolean =>
+  normalize(answer) === normalize(exercise.answer);
+
+/**
+ * Whether the words were put back in the sentence's order. Identical words are interchangeable.
+ */
+export const isOrderCorrect = (exercise: ReorderExercise, order: string[]): boolean =>
+  normalize(order.join(' ')) === normalize(exercise.words.join(' '));
+
+/**
+ * Compares a typed sentence with the original character by character, using the longest
+ * common subsequence, so that one missed letter does not mark the rest of the line wrong.
+ * Case is ignored and runs of whitespace count as one space.
+ * @returns The segments of both texts in reading order.
+ */
+export const diffCharacters = (expected: string, actual: string): DiffSegment[] => {
+  const a = expected.trim().replace(/\s+/g, ' ');
+  const b = actual.trim().replace(/\s+/g, ' ');
+  const same = (i: number, j: number) => a[i].toLowerCase() === b[j].toLowerCase();
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(i, j) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (kind: DiffSegment['kind'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else segments.push({ kind, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(i, j)) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      push('extra', b[j++]);
+    } else {
+      push('missing', a[i++]);
+    }
+  }
+  return segments;
+};
+
+/**
+ * Scores a dictation: the share of characters that match, counting both missed and extra ones.
+ * The dictation is correct when only case and punctuation differ.
+ */
+export const scoreDictation = (exercise: DictationExercise, typed: string): { segments: DiffSegment[]; score: number; correct: boolean } => {
+  const segments = diffCharacters(exercise.sentence, typed);
+  const length = (kind: DiffSegment['kind']) => segments.filter(s => s.kind === kind).reduce((sum, s) => sum + s.text.length, 0);
+  const total = length('equal') + length('missing') + length('extra');
+  const correct = normalizeDictation(exercise.sentence) === normalizeDictation(typed);
+  return { segments, score: correct ? 1 : total > 0 ? length('equal') / total : 0, correct };
+};
+
+/**
+ * Totals the results of a session by exercise type.
+ */
+export const summarizeResults = (results: ExerciseResult[]): Record<ExerciseType, ExerciseTypeSummary> => {
+  const summary = {} as Record<ExerciseType, ExerciseTypeSummary>;
+  for (const type of EXERCISE_TYPES) {
+    const ofType = results.filter(result => result.type === type);
+    summary[type] = {
+      attempted: ofType.length,
+      correct: ofType.filter(result => result.correct).length,
+      score: ofType.length > 0 ? ofType.reduce((sum, result) => sum + result.score, 0) / ofType.length : 0,
+    };
+  }
+  return summary;
+};
+
+/**
+ * The name of a case as shown to learners, e.g. "inessive plural".
+ */
+export const describeCase = (exercise: CaseExercise): string =>
+  `${NOUN_CASES.find(name => name.toLowerCase() === exercise.grammaticalCase) ?? exercise.grammaticalCase} ${exercise.number}`;
@@ -0,0 +1,125 @@
+import { FINNISH_FREQUENCY_LIST } from "../data/frequencyList";
+import { candidateBaseForms } from "./dictionaryProvider";
+import { generateInflectionTable, strengthen, MISSING_FORM } from "./inflectionGenerator";
+
+/**
+ * How common a lemma is: among the most frequent few hundred lemmas, within the
+ * bundled frequency list, or rarer than that.
+ */
+export type FrequencyBand = 'very-common' | 'common' | 'uncommon';
+
+/** Lemmas up to this rank are "very common"; roughly the vocabulary of A1 learners. */
+export const VERY_COMMON_MAX_RANK = 250;
+
+export const FREQUENCY_BAND_LABELS: Record<FrequencyBand, string> = {
+  'very-common': 'Very common',
+  'common': 'Common',
+  'uncommon': 'Less common',
+};
+
+const RANKS = new Map(FINNISH_FREQUENCY_LIST.split('\n').map((lemma, i) => [lemma, i + 1]));
+
+// Inflected forms of the most frequent irregular words, which suffix stripping cannot reduce.
+const IRREGULAR_FORMS: Record<string, string> = {
+  on: 'olla', olen: 'olla', olet: 'olla', olemme: 'olla', olette: 'olla', ovat: 'olla',
+  oli: 'olla', olin: 'olla', olit: 'olla', olimme: 'olla', olitte: 'olla', olivat: 'olla',
+  ollut: 'olla', olleet: 'olla', olisi: 'olla', ole: 'olla',
+  en: 'ei', et: 'ei', emme: 'ei', ette: 'ei', eivät: 'ei',
+  minun: 'minä', minua: 'minä', minulla: 'minä', minulle: 'minä', minusta: 'minä', minut: 'minä',
+  sinun: 'sinä', sinua: 'sinä', sinulla: 'sinä', sinulle: 'sinä', sinusta: 'sinä', sinut: 'sinä',
+  hänen: 'hän', häntä: 'hän', hänellä: 'hän', hänelle: 'hän', hänestä: 'hän', hänet: 'hän',
+  meidän: 'me', meitä: 'me', meillä: 'me', meille: 'me', meistä: 'me', meidät: 'me',
+  teidän: 'te', teitä: 'te', teillä: 'te', teille: 'te', teistä: 'te', teidät: 'te',
+  heidän: 'he', heitä: 'he', heillä: 'he', heille: 'he', heistä: 'he', heidät: 'he',
+  sen: 'se', sitä: 'se', siinä: 'se', siitä: 'se', sille: 'se', sillä: 'se', siihen: 'se',
+  ne: 'se', niiden: 'se', niitä: 'se', niillä: 'se', niille: 'se', niistä: 'se',
+  tämän: 'tämä', tätä: 'tämä', tässä: 'tämä', tästä: 'tämä', tähän: 'tämä', tällä: 'tämä',
+  nämä: 'tämä', näiden: 'tämä', näitä: 'tämä',
+  mitä: 'mikä', minkä: 'mikä', missä: 'mikä', mistä: 'mikä', mihin: 'mikä',
+  jonka: 'joka', jota: 'joka', jossa: 'joka', josta: 'joka', johon: 'joka', jolla: 'joka',
+  jotka: 'joka', joiden: 'joka', joita: 'joka', joissa: 'joka',
+};
+
+// Present-tense personal endings; stripping one and adding -a/-ä recovers many verbs (asumme → asua).
+const PERSONAL_ENDINGS = ['mme', 'tte', 'vat', 'vät', 'n', 't'];
+
+const verbCandidates = (word: string): string[] => {
+  const stems = PERSONAL_ENDINGS
+    .filter(ending => word.length > ending.length + 2 && word.endsWith(ending))
+    .map(ending => word.slice(0, -ending.length));
+  // Third person singular lengthens the final vowel (asuu → asua)
+  if (/([aeiouyäö])\1$/.test(word)) stems.push(word.slice(0, -1));
+  const vowel = /[aou]/.test(word) ? 'a' : 'ä';
+  return stems.map(stem => stem + vowel);
+};
+
+// Inflected forms of the listed lemmas, generated by the offline inflection rules; built on first use.
+// A form belongs to the most frequent lemma that produces it.
+let inflectedForms: Map<string, string> | null = null;
+
+const getInflectedForms = (): Map<string, string> => {
+  if (!inflectedForms) {
+    inflectedForms = new Map();
+    for (const lemma of RANKS.keys()) {
+      for (const inflectionClass of ['noun', 'verb'] as const) {
+        const cells = generateInflectionTable(lemma, inflectionClass)?.sections.flatMap(section => section.rows.flatMap(row => row.cells)) ?? [];
+        for (const alternative of cells.flatMap(cell => cell.split(' / '))) {
+          // Negatives and compound tenses ("en puhu", "olen puhunut") are listed under their last word
+          const form = alternative.trim().split(/\s+/).pop();
+          if (form && form !== MISSING_FORM && !inflectedForms.has(form)) inflectedForms.set(form, lemma);
+        }
+      }
+    }
+  }
+  return inflectedForms;
+};
+
+/**
+ * Undoes the stem changes of words the inflection rules cannot decline (two-syllable -i nominals and
+ * longer ones with gradation) on a stem left by suffix stripping: the weak grade ("kaupungi-" →
+ * "kaupunki") and the e-stem ("lapse-" → "lapsi"). Illative endings are stripped first ("lapsiin").
+ */
+const stemCandidates = (stem: string): string[] => {
+  // "lapsiin" → "lapsi", "maahan" → "maa"
+  const illative = /(?:([aeiouyäö])\1|h[aeiouyäö])n$/.exec(stem);
+  const bare = illative && stem.length > 4 ? [stem, stem.slice(0, illative[1] ? -2 : -3)] : [stem];
+  return bare.flatMap(form => {
+    const strong = strengthen(form);
+    return [form, strong, ...[form, strong].filter(s => /[^aeiouyäö]e$/.test(s)).map(s => `${s.slice(0, -1)}i`)];
+  });
+};
+
+/**
+ * Returns a lemma's rank in the frequency list (1 = most frequent), or null if it is not listed.
+ */
+export const getFrequencyRank = (lemma: string): number | null => RANKS.get(lemma.toLowerCase()) ?? null;
+
+export const getFrequencyBand = (rank: number | null): FrequencyBand =>
+  rank === null ? 'uncommon' : rank <= VERY_COMMON_MAX_RANK ? 'very-common' : 'common';
+
+/**
+ * Finds the listed lemma of a word: its analysed base form, the word itself, a known irregular form,
+ * a generated inflected form of a listed lemma, or a candidate base form from suffix stripping,
+ * whichever is listed first.
+ * @returns The lemma, or undefined if none of the candidates is listed.
+ */
+export const findListedLemma = (word: string, baseForm?: string): string | undefined => {
+  const lower = word.toLowerCase();
+  const generated = getInflectedForms().get(lower);
+  const candidates = [
+    ...(baseForm ? [baseForm.toLowerCase()] : []),
+    lower,
+    ...(IRREGULAR_FORMS[lower] ? [IRREGULAR_FORMS[lower]] : []),
+    ...(generated ? [generated] : []),
+    ...candidateBaseForms(lower).flatMap(candidate => stemCandidates(candidate.baseForm)),
+    ...verbCandidates(lower),
+  ];
+  return candidates.find(lemma => RANKS.has(lemma));
+};
+
+/**
+ * Picks the lemma of a word for frequency lookup, as `findListedLemma` does.
+ * Falls back to the base form (or word) when none is listed.
+ */
+export const findFrequencyLemma = (word: string, baseForm?: string): string =>
+  findListedLemma(word, baseForm) ?? (baseForm || word).toLowerCase();
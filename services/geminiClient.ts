@@ -0,0 +1,70 @@
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { createRequestScheduler, RequestOptions, RequestScheduler, SchedulerOptions } from "./requestScheduler";
+
+let client: GoogleGenAI | null = null;
+
+/**
+ * Reads the Gemini API key injected by Vite at build time.
+ * Returns undefined when the key is missing so callers can degrade gracefully.
+ */
+const getApiKey = (): string | undefined => {
+    try {
+        return process.env.API_KEY || undefined;
+    } catch {
+        // `process` is not defined when the app is served without the Vite `define` replacement.
+        return undefined;
+    }
+};
+
+/**
+ * Whether a Gemini API key has been configured for this build.
+ */
+export const isGeminiConfigured = (): boolean => Boolean(getApiKey());
+
+/**
+ * Returns the shared GoogleGenAI client, creating it on first use.
+ * Throws if the API key is missing, so the app can still start without Gemini access
+ * and only the features that need it fail.
+ */
+export const getGeminiClient = (): GoogleGenAI => {
+    if (!client) {
+        const apiKey = getApiKey();
+        if (!apiKey) {
+            throw new Error("API_KEY environment variable not set.");
+        }
+        client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+};
+
+// Gemini quotas apply per model. Speech synthesis has a much lower request quota than text generation.
+const MODEL_LIMITS: Record<string, Partial<SchedulerOptions>> = {
+    'gemini-2.5-flash-preview-tts': { maxConcurrent: 3, requestsPerMinute: 10 },
+};
+
+const schedulers = new Map<string, RequestScheduler>();
+
+const getScheduler = (model: string): RequestScheduler => {
+    let scheduler = schedulers.get(model);
+    if (!scheduler) {
+        scheduler = createRequestScheduler(MODEL_LIMITS[model]);
+        schedulers.set(model, scheduler);
+    }
+    return scheduler;
+};
+
+/**
+ * Calls `generateContent` through the shared scheduler of the model, which bounds concurrency,
+ * keeps to the per-minute quota, retries rate-limit and server errors with backoff, and merges
+ * identical requests that are in flight at the same time (e.g. a preload and a play of the same sentence).
+ * @param params The request, as for `models.generateContent`; `config.abortSignal` is set by the scheduler.
+ * @param options Cancellation and priority.
+ */
+export const generateContent = (
+    params: GenerateContentParameters,
+    options: RequestOptions = {}
+): Promise<GenerateContentResponse> =>
+    getScheduler(params.model).schedule(
+        signal => getGeminiClient().models.generateContent({ ...params, config: { ...params.config, abortSignal: signal } }),
+        { ...options, key: JSON.stringify([params.model, params.contents, params.config]) }
+    );
@@ -1,143 +1,596 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
+import { CompoundPart, ContextualTranslation, FinnishCase, GrammarExplanation, InflectionClass, InflectionSection, InflectionTable, TranslationProvider, WordAnalysis, WordExample, WordOccurrence, WordTranslation } from "../types";
+import { getOccurrenceKey } from "./wordOccurrences";
+import { MISSING_FORM, NOUN_CASES, VERB_PERSONS, VERB_SECTIONS } from "./inflectionGenerator";
+import { generateContent, isGeminiConfigured } from "./geminiClient";
 
-// Ensure the API key is available from environment variables
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set.");
-}
+const GEMINI_MODEL = "gemini-2.5-flash";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const FINNISH_CASES: FinnishCase[] = [
+  'nominative', 'genitive', 'accusative', 'partitive',
+  'inessive', 'elative', 'illative',
+  'adessive', 'ablative', 'allative',
+  'essive', 'translative',
+  'abessive', 'comitative', 'instructive',
+];
 
 /**
- * Translates a single Finnish word to English using the Gemini API.
+ * Extracts the JSON payload from a model response.
+ * The model may wrap the JSON response in markdown backticks or return an empty string,
+ * so this strips a markdown code block if present. Returns null for empty responses.
+ */
+const extractJson = (text: string | undefined): string | null => {
+  let jsonString = (text || '').trim();
+  const match = /```(?:json)?\s*([\s\S]*?)\s*```/.exec(jsonString);
+  if (match) {
+    jsonString = match[1];
+  }
+  return jsonString || null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Converts the raw analysis object returned by the model into a WordAnalysis,
+ * dropping empty strings and values outside the expected vocabularies.
+ */
+const normalizeAnalysis = (raw: unknown): WordAnalysis | null => {
+  if (!isRecord(raw) || typeof raw.baseForm !== 'string' || !raw.baseForm.trim()) {
+    return null;
+  }
+  const optional = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() && value.trim().toLowerCase() !== 'none' ? value.trim() : undefined;
+
+  const grammaticalCase = optional(raw.case)?.toLowerCase() as FinnishCase | undefined;
+  const number = optional(raw.number)?.toLowerCase();
+
+  return {
+    baseForm: raw.baseForm.trim(),
+    partOfSpeech: optional(raw.partOfSpeech) || 'unknown',
+    case: grammaticalCase && FINNISH_CASES.includes(grammaticalCase) ? grammaticalCase : undefined,
+    number: number === 'singular' || number === 'plural' ? number : undefined,
+    possessiveSuffix: optional(raw.possessiveSuffix),
+    clitics: Array.isArray(raw.clitics)
+      ? raw.clitics.filter((c: unknown): c is string => typeof c === 'string' && c.trim().length > 0)
+      : [],
+    person: optional(raw.person),
+    tense: optional(raw.tense),
+    mood: optional(raw.mood),
+  };
+};
+
+const OTHER_SENSES_SCHEMA = {
+  type: Type.ARRAY,
+  description: "Other common meanings of the word that do not apply in this sentence, most common first. Empty if the word is unambiguous.",
+  items: { type: Type.STRING },
+};
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim().length > 0) : [];
+
+const normalizeExample = (raw: unknown): WordExample | undefined => {
+  if (!isRecord(raw) || typeof raw.finnish !== 'string' || typeof raw.english !== 'string') return undefined;
+  const finnish = raw.finnish.trim();
+  const english = raw.english.trim();
+  return finnish && english ? { finnish, english } : undefined;
+};
+
+/**
+ * Translates a single Finnish word to English using the Gemini API and analyses
+ * its morphology (base form, case, number, possessive suffix, clitics, verb inflection),
+ * with its other senses and an example sentence.
  * @param word The Finnish word to translate.
- * @returns A promise that resolves to the English translation.
+ * @param context The sentence the word appears in, used to pick the right sense and analysis.
+ * @param signal Cancels the request.
+ * @returns A promise that resolves to the English translation, senses, example and the word's analysis.
+ * @throws If the API call fails, so the provider registry can fall back to another provider.
  */
-export const translateWord = async (word: string): Promise<string> => {
+const translateWord = async (word: string, context?: string, signal?: AbortSignal): Promise<WordTranslation> => {
   // Remove common punctuation from the end of the word for better translation results.
   const cleanedWord = word.replace(/[.,!?;:)"'”\]`]*$/, '');
 
   if (!cleanedWord) {
-    return word; // Return original if it's only punctuation
+    return { translation: word, senses: [], analysis: null }; // Return original if it's only punctuation
   }
+
+  const contextPrompt = context
+    ? ` It appears in the sentence: "${context}". Translate it with the meaning it has in this sentence.`
+    : '';
   
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Translate the following Finnish word to English: "${cleanedWord}"`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            translation: {
-              type: Type.STRING,
-              description: "The English translation of the word.",
+  const response = await generateContent({
+    model: GEMINI_MODEL,
+    contents: `Translate the following Finnish word to English and analyse its morphology: "${cleanedWord}".${contextPrompt}`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          translation: {
+            type: Type.STRING,
+            description: "The English translation of the word.",
+          },
+          otherSenses: OTHER_SENSES_SCHEMA,
+          example: {
+            type: Type.OBJECT,
+            description: "A short, natural Finnish sentence using the word in the same sense, different from the given sentence, for a learner.",
+            properties: {
+              finnish: { type: Type.STRING, description: "The example sentence in Finnish." },
+              english: { type: Type.STRING, description: "Its English translation." },
+            },
+            required: ['finnish', 'english'],
+          },
+          analysis: {
+            type: Type.OBJECT,
+            description: "Morphological analysis of the exact word form given.",
+            properties: {
+              baseForm: {
+                type: Type.STRING,
+                description: "The dictionary form (lemma), e.g. 'talo' for 'talossanikin'.",
+              },
+              partOfSpeech: {
+                type: Type.STRING,
+                description: "Part of speech in English, e.g. 'noun', 'verb', 'adjective', 'pronoun'.",
+              },
+              case: {
+                type: Type.STRING,
+                description: "Grammatical case for nominals. Omit for verbs and uninflected words.",
+                enum: FINNISH_CASES,
+              },
+              number: {
+                type: Type.STRING,
+                description: "Grammatical number for nominals.",
+                enum: ['singular', 'plural'],
+              },
+              possessiveSuffix: {
+                type: Type.STRING,
+                description: "The possessive suffix and its person, e.g. '-ni (my)'. Omit if none.",
+              },
+              clitics: {
+                type: Type.ARRAY,
+                description: "Clitic particles attached to the word, e.g. ['-kin'], ['-han'], ['-ko'].",
+                items: { type: Type.STRING },
+              },
+              person: {
+                type: Type.STRING,
+                description: "For finite verbs: person and number, e.g. '3rd person singular', or 'passive'.",
+              },
+              tense: {
+                type: Type.STRING,
+                description: "For verbs: 'present', 'past', 'perfect' or 'pluperfect'.",
+              },
+              mood: {
+                type: Type.STRING,
+                description: "For verbs: 'indicative', 'conditional', 'imperative' or 'potential'.",
+              },
             },
+            required: ['baseForm', 'partOfSpeech', 'clitics'],
           },
         },
+        required: ['translation'],
       },
-    });
-
-    // FIX: The model may wrap the JSON response in markdown backticks or return an empty string.
-    // This makes parsing more robust by extracting JSON from a markdown code block if present
-    // and handling empty responses before attempting to parse.
-    let jsonString = response.text.trim();
-    const match = /```(?:json)?\s*([\s\S]*?)\s*```/.exec(jsonString);
-    if (match) {
-      jsonString = match[1];
-    }
+    },
+  }, { signal });
 
-    if (!jsonString) {
-      return "Translation not found.";
-    }
-    
-    const result = JSON.parse(jsonString);
-    
-    return result.translation || "Translation not found.";
-
-  } catch (error) {
-    console.error("Error translating word:", error);
-    return "Translation failed.";
+  const jsonString = extractJson(response.text);
+  if (!jsonString) {
+    return { translation: "Translation not found.", senses: [], analysis: null, notFound: true };
   }
+  
+  const result = JSON.parse(jsonString);
+  const translation = typeof result.translation === 'string' ? result.translation.trim() : '';
+  
+  return {
+    translation: translation || "Translation not found.",
+    ...(translation ? {} : { notFound: true }),
+    senses: toStringArray(result.otherSenses),
+    example: normalizeExample(result.example),
+    analysis: normalizeAnalysis(result.analysis),
+  };
 };
 
 /**
  * A type for the structured translation response from the batch translation API.
  */
 type BatchTranslation = {
+  sentenceId: number;
   finnish: string;
   english: string;
+  otherSenses?: string[];
 };
 
 /**
- * Translates a batch of Finnish words to English in a single API call.
- * @param words The array of Finnish words to translate.
- * @returns A promise that resolves to a Map of Finnish words to their English translations.
+ * Translates a batch of Finnish word occurrences to English in a single API call.
+ * Occurrences are grouped by sentence so the model sees each word in context.
+ * @param occurrences The word occurrences to translate.
+ * @param signal Cancels the request.
+ * @returns A promise that resolves to a Map of occurrence keys to their in-context translations.
+ * @throws If the API call fails, so the provider registry can fall back to another provider.
  */
-export const translateWordsBatch = async (words: string[]): Promise<Map<string, string>> => {
-  if (words.length === 0) {
+const translateWordsBatch = async (occurrences: WordOccurrence[], signal?: AbortSignal): Promise<Map<string, ContextualTranslation>> => {
+  if (occurrences.length === 0) {
     return new Map();
   }
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Translate the following list of Finnish words to English: ${JSON.stringify(words)}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            translations: {
-              type: Type.ARRAY,
-              description: "An array of translation objects.",
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  finnish: {
-                    type: Type.STRING,
-                    description: "The original Finnish word.",
-                  },
-                  english: {
-                    type: Type.STRING,
-                    description: "The English translation.",
-                  },
+  const sentences = new Map<number, { sentenceId: number; sentence: string; words: string[] }>();
+  for (const { word, sentenceId, sentence } of occurrences) {
+    if (!sentences.has(sentenceId)) sentences.set(sentenceId, { sentenceId, sentence, words: [] });
+    sentences.get(sentenceId)!.words.push(word);
+  }
+
+  const response = await generateContent({
+    model: GEMINI_MODEL,
+    contents: `Translate each listed Finnish word to English with the meaning it has in its sentence: ${JSON.stringify(Array.from(sentences.values()))}`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          translations: {
+            type: Type.ARRAY,
+            description: "An array of translation objects, one per listed word per sentence.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                sentenceId: {
+                  type: Type.INTEGER,
+                  description: "The sentenceId of the sentence the word was listed under.",
+                },
+                finnish: {
+                  type: Type.STRING,
+                  description: "The original Finnish word.",
+                },
+                english: {
+                  type: Type.STRING,
+                  description: "The English translation in this sentence.",
                 },
-                required: ['finnish', 'english'],
+                otherSenses: OTHER_SENSES_SCHEMA,
               },
+              required: ['sentenceId', 'finnish', 'english'],
             },
           },
         },
       },
-    });
+    },
+  }, { signal });
 
-    let jsonString = response.text.trim();
-    const match = /```(?:json)?\s*([\s\S]*?)\s*```/.exec(jsonString);
-    if (match) {
-      jsonString = match[1];
-    }
+  const jsonString = extractJson(response.text);
+  if (!jsonString) {
+    console.warn("Batch translation returned an empty response.");
+    return new Map();
+  }
 
-    if (!jsonString) {
-      console.warn("Batch translation returned an empty response.");
-      return new Map();
+  const result: { translations: BatchTranslation[] } = JSON.parse(jsonString);
+  const translationMap = new Map<string, ContextualTranslation>();
+  
+  if (result.translations) {
+    for (const item of result.translations) {
+      translationMap.set(getOccurrenceKey(item.sentenceId, item.finnish), {
+        translation: item.english,
+        senses: toStringArray(item.otherSenses),
+      });
     }
+  }
+  
+  return translationMap;
+};
 
-    const result: { translations: BatchTranslation[] } = JSON.parse(jsonString);
-    const translationMap = new Map<string, string>();
-    
-    if (result.translations) {
-      for (const item of result.translations) {
-        // Normalize to lowercase for consistent cache lookups
-        translationMap.set(item.finnish.toLowerCase(), item.english);
-      }
+/**
+ * Translates a Finnish sentence or passage into idiomatic English.
+ * @param text The Finnish text to translate.
+ * @param signal Cancels the request.
+ * @returns A promise that resolves to the English translation.
+ * @throws If the API call fails, so the provider registry can fall back to another provider.
+ */
+const translateText = async (text: string, signal?: AbortSignal): Promise<string> => {
+  const response = await generateContent({
+    model: GEMINI_MODEL,
+    contents: `Translate the following Finnish text into natural, idiomatic English: ${JSON.stringify(text)}`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          translation: {
+            type: Type.STRING,
+            description: "The idiomatic English translation.",
+          },
+        },
+        required: ['translation'],
+      },
+    },
+  }, { signal });
+
+  const jsonString = extractJson(response.text);
+  if (!jsonString) {
+    throw new Error("Text translation returned an empty response.");
+  }
+  const raw: unknown = JSON.parse(jsonString);
+  return isRecord(raw) && typeof raw.translation === 'string' ? raw.translation : '';
+};
+
+/**
+ * Translates several Finnish sentences in one API call, keeping them aligned one-to-one.
+ * @param sentences The Finnish sentences to translate.
+ * @param signal Cancels the request.
+ * @returns A promise that resolves to the English translations, in the same order.
+ * @throws If the API call fails, so the provider registry can fall back to another provider.
+ */
+const translateSentences = async (sentences: string[], signal?: AbortSignal): Promise<string[]> => {
+  if (sentences.length === 0) {
+    return [];
+  }
+
+  const response = await generateContent({
+    model: GEMINI_MODEL,
+    contents: `Translate each of the following Finnish sentences into natural, idiomatic English. Translate each one separately, without merging or splitting them: ${JSON.stringify(sentences.map((text, index) => ({ index, text })))}`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          translations: {
+            type: Type.ARRAY,
+            description: "One entry per input sentence.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                index: {
+                  type: Type.INTEGER,
+                  description: "The index of the input sentence.",
+                },
+                english: {
+                  type: Type.STRING,
+                  description: "The English translation of that sentence.",
+                },
+              },
+              required: ['index', 'english'],
+            },
+          },
+        },
+      },
+    },
+  }, { signal });
+
+  const jsonString = extractJson(response.text);
+  if (!jsonString) {
+    throw new Error("Sentence translation returned an empty response.");
+  }
+
+  const raw: unknown = JSON.parse(jsonString);
+  const translated = new Array<string>(sentences.length).fill('');
+  for (const item of isRecord(raw) && Array.isArray(raw.translations) ? raw.translations : []) {
+    if (!isRecord(item)) continue;
+    const { index, english } = item;
+    if (typeof index === 'number' && Number.isInteger(index) && index >= 0 && index < sentences.length && typeof english === 'string') {
+      translated[index] = english;
     }
-    
-    return translationMap;
+  }
+  return translated;
+};
 
-  } catch (error) {
-    console.error("Error in batch translating words:", error);
-    // Return an empty map on failure so the app can continue and use the fallback mechanism.
-    return new Map();
+// An array of objects whose properties are all required strings, described by `properties`.
+const stringRecordArray = (description: string, properties: Record<string, string>) => ({
+  type: Type.ARRAY,
+  description,
+  items: {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(
+      Object.entries(properties).map(([name, propertyDescription]) => [name, { type: Type.STRING, description: propertyDescription }])
+    ),
+    required: Object.keys(properties),
+  },
+});
+
+/**
+ * Keeps the items of a model-returned array that have every listed string property,
+ * so a partially malformed response still yields the well-formed parts.
+ */
+const toRecordArray = <K extends string>(value: unknown, keys: K[]): Record<K, string>[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is Record<K, string> =>
+        item && typeof item === 'object' && keys.every(key => typeof item[key] === 'string'))
+    : [];
+
+/**
+ * Explains the grammar of a Finnish sentence for a learner: clause structure, the case choices
+ * of subjects and objects, verb government and notable constructions.
+ * @param sentence The Finnish sentence.
+ * @param signal Cancels the request.
+ * @returns A promise that resolves to the structured explanation.
+ * @throws If the API call fails or returns no explanation.
+ */
+const explainGrammar = async (sentence: string, signal?: AbortSignal): Promise<GrammarExplanation> => {
+  const response = await generateContent({
+    model: GEMINI_MODEL,
+    contents: `Explain the grammar of this Finnish sentence to an English-speaking learner. Cover its clause structure, why the subject, objects and complements are in the cases they are (e.g. partitive vs. accusative/genitive objects, existential sentences), which words govern a particular case or form (e.g. "pitää + elative"), and notable constructions such as the passive, participle phrases, the agent participle or infinitive constructions. Be concise and only include what actually occurs in the sentence: ${JSON.stringify(sentence)}`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          translation: {
+            type: Type.STRING,
+            description: "A fairly literal English translation that mirrors the sentence structure.",
+          },
+          clauses: stringRecordArray("The clauses of the sentence, in order.", {
+            text: "The Finnish text of the clause.",
+            type: "The kind of clause, e.g. main clause, relative clause, että-clause.",
+            explanation: "How the clause is built and how it connects to the rest of the sentence.",
+          }),
+          caseChoices: stringRecordArray("Subjects, objects and complements whose case is worth explaining.", {
+            phrase: "The Finnish phrase as it appears in the sentence.",
+            grammaticalCase: "The case, e.g. partitive.",
+            reason: "Why this case is used here.",
+          }),
+          government: stringRecordArray("Words that require a particular case or form of their complement. Empty if there are none.", {
+            pattern: "The pattern, e.g. 'pitää + elative'.",
+            example: "The words of the sentence that follow the pattern.",
+            explanation: "What the pattern means.",
+          }),
+          constructions: stringRecordArray("Notable constructions such as passives, participle phrases and infinitives. Empty if there are none.", {
+            name: "The name of the construction, e.g. agent participle.",
+            example: "The words of the sentence that form it.",
+            explanation: "How it works and what it expresses.",
+          }),
+          notes: {
+            type: Type.STRING,
+            description: "Anything else a learner should notice, such as word order or clitics. Empty if nothing.",
+          },
+        },
+        required: ['translation', 'clauses', 'caseChoices', 'government', 'constructions'],
+      },
+    },
+  }, { signal });
+
+  const jsonString = extractJson(response.text);
+  if (!jsonString) {
+    throw new Error("Grammar explanation returned an empty response.");
   }
+
+  const raw: unknown = JSON.parse(jsonString);
+  if (!isRecord(raw)) {
+    throw new Error("Grammar explanation returned an invalid response.");
+  }
+  return {
+    translation: typeof raw.translation === 'string' ? raw.translation : '',
+    clauses: toRecordArray(raw.clauses, ['text', 'type', 'explanation']),
+    caseChoices: toRecordArray(raw.caseChoices, ['phrase', 'grammaticalCase', 'reason']),
+    government: toRecordArray(raw.government, ['pattern', 'example', 'explanation']),
+    constructions: toRecordArray(raw.constructions, ['name', 'example', 'explanation']),
+    notes: typeof raw.notes === 'string' ? raw.notes.trim() : '',
+  };
+};
+
+/**
+ * Splits a Finnish compound word into its parts, with the dictionary form and gloss of each.
+ * @param word The word, possibly inflected.
+ * @param context The sentence the word appears in, to tell compounds from look-alikes.
+ * @param signal Cancels the request.
+ * @returns The parts in order, or null if the word is not a compound.
+ * @throws If the API call fails.
+ */
+const splitCompound = async (word: string, context?: string, signal?: AbortSignal): Promise<CompoundPart[] | null> => {
+  const contextPrompt = context ? ` It appears in the sentence: ${JSON.stringify(context)}.` : '';
+  const response = await generateContent({
+    model: GEMINI_MODEL,
+    contents: `Is the Finnish word ${JSON.stringify(word)} a compound? If so, split it into the words it is made of, in order.${contextPrompt}`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          parts: stringRecordArray("The parts of the compound in order. Empty if the word is not a compound; derivational suffixes are not parts.", {
+            surface: "The part exactly as it is written in the word, e.g. 'kansan' in 'kansanedustaja'. Together the parts spell the whole word.",
+            baseForm: "The dictionary form of the part, e.g. 'kansa'.",
+            gloss: "A short English gloss of the part.",
+          }),
+        },
+        required: ['parts'],
+      },
+    },
+  }, { signal });
+
+  const jsonString = extractJson(response.text);
+  if (!jsonString) return null;
+  const raw: unknown = JSON.parse(jsonString);
+  if (!isRecord(raw)) return null;
+  const parts = toRecordArray(raw.parts, ['surface', 'baseForm', 'gloss']);
+  return parts.length >= 2 ? parts.map(({ surface, baseForm, gloss }) => ({ surface, baseForm: baseForm.toLowerCase(), gloss })) : null;
+};
+
+/**
+ * Keeps the rows of a model-returned table section that have a form for every column.
+ * Returns null for a section without a title or complete rows.
+ */
+const normalizeInflectionSection = (raw: unknown): InflectionSection | null => {
+  if (!isRecord(raw) || typeof raw.title !== 'string') return null;
+  const columns = toStringArray(raw.columns);
+  const rows: InflectionSection['rows'] = [];
+  for (const row of Array.isArray(raw.rows) ? raw.rows : []) {
+    if (!isRecord(row) || typeof row.label !== 'string') continue;
+    const cells = toStringArray(row.cells).map(cell => cell.trim());
+    if (columns.length > 0 && cells.length === columns.length) rows.push({ label: row.label, cells });
+  }
+  return rows.length > 0 ? { title: raw.title, columns, rows } : null;
+};
+
+const INFLECTION_PROMPTS: Record<InflectionClass, string> = {
+  noun: `Give the full declension of the Finnish nominal {word}: one section titled "Declension" with the columns "Singular" and "Plural" and one row for each of these cases, in this order: ${NOUN_CASES.join(', ')}.`,
+  verb: `Give the full conjugation of the Finnish verb {word}. Use these sections, in this order: ${VERB_SECTIONS.join(', ')}. The tense and mood sections have the columns "Affirmative" and "Negative" and the rows ${VERB_PERSONS.join(', ')}, with negative forms written out in full (e.g. "en puhu"); the imperative has the rows sinä and te. The infinitive and participle sections have the single column "Form" with one row per form: the 1st, 2nd and 3rd infinitives in their common cases, and the active, passive, agent and negative participles.`,
+};
+
+/**
+ * Generates the complete inflection table of a Finnish word in its dictionary form,
+ * including irregular words the offline generator cannot handle.
+ * @param baseForm The nominative singular or first infinitive.
+ * @param inflectionClass Whether to decline or conjugate the word.
+ * @param signal Cancels the request.
+ * @returns The table, or null if the model returned none.
+ * @throws If the API call fails.
+ */
+const inflect = async (baseForm: string, inflectionClass: InflectionClass, signal?: AbortSignal): Promise<InflectionTable | null> => {
+  const response = await generateContent({
+    model: GEMINI_MODEL,
+    contents: `${INFLECTION_PROMPTS[inflectionClass].replace('{word}', JSON.stringify(baseForm))} Separate alternative forms with " / " and write "${MISSING_FORM}" for forms that do not exist.`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          sections: {
+            type: Type.ARRAY,
+            description: "The sections of the table, in order.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING, description: "The title of the section, e.g. 'Present indicative'." },
+                columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The column headings." },
+                rows: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      label: { type: Type.STRING, description: "The case, person or form name." },
+                      cells: { type: Type.ARRAY, items: { type: Type.STRING }, description: "One form per column." },
+                    },
+                    required: ['label', 'cells'],
+                  },
+                },
+              },
+              required: ['title', 'columns', 'rows'],
+            },
+          },
+        },
+        required: ['sections'],
+      },
+    },
+  }, { signal });
+
+  const jsonString = extractJson(response.text);
+  if (!jsonString) return null;
+  const raw: unknown = JSON.parse(jsonString);
+  const sections = (isRecord(raw) && Array.isArray(raw.sections) ? raw.sections : [])
+    .map(normalizeInflectionSection)
+    .filter((section): section is InflectionSection => section !== null);
+  return sections.length > 0 ? { baseForm, inflectionClass, sections } : null;
+};
+
+/**
+ * Translation provider backed by the Gemini API. Only available when an API key is configured.
+ */
+export const geminiProvider: TranslationProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  model: GEMINI_MODEL,
+  cacheable: true,
+  isAvailable: isGeminiConfigured,
+  translateWord,
+  translateWordsBatch,
+  translateText,
+  translateSentences,
+  explainGrammar,
+  splitCompound,
+  inflect,
 };
@@ -93,4 +93,51 @@ export const sanitizeHtml = (html: string): string => {
     });
 
     return doc.body.innerHTML;
-};
\ No newline at end of file
+};
+// Elements that start a new line when the text is read as plain text.
+const BLOCK_TAGS = new Set(['H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'DIV', 'P', 'BR']);
+
+/**
+ * Returns the text a node contributes after its children in the plain-text projection
+ * of an HTML document: a newline for line breaks and block elements, otherwise nothing.
+ * Anything that walks rendered HTML in step with `htmlToPlainText` must add this too,
+ * so character offsets agree.
+ */
+export const getTextSeparator = (node: Node): string =>
+    node.nodeType === 1 && BLOCK_TAGS.has((node as Element).tagName) ? '\n' : '';
+
+/**
+ * Converts (sanitized) HTML to plain text, keeping line breaks between blocks so
+ * that headings and paragraphs do not run into each other.
+ * @param html The HTML string.
+ * @returns The plain text; character offsets match a depth-first walk of text nodes.
+ */
+export const htmlToPlainText = (html: string): string => {
+    if (!html) {
+        return '';
+    }
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    if (!doc.body) {
+        return '';
+    }
+
+    const walk = (node: Node): string => {
+        if (node.nodeType === 3) { // Text node
+            return node.textContent || '';
+        }
+        if (node.nodeType === 1) { // Element node
+            return Array.from(node.childNodes).map(walk).join('') + getTextSeparator(node);
+        }
+        return '';
+    };
+
+    return Array.from(doc.body.childNodes).map(walk).join('');
+};
+
+/**
+ * Derives a short title for a text from its first non-empty line.
+ */
+export const deriveTitle = (plainText: string, maxLength = 60): string => {
+    const firstLine = plainText.split('\n').map(line => line.trim()).find(Boolean) || 'Untitled';
+    return firstLine.length > maxLength ? `${firstLine.slice(0, maxLength - 1).trimEnd()}…` : firstLine;
+};
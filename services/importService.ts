@@ -0,0 +1,331 @@
+import { sanitizeHtml } from "./htmlService";
+import { readZip } from "./zipService";
+
+/**
+ * A text brought in from a file or web page, ready for the input view.
+ */
+export type ImportedText = {
+  title: string;
+  /** The file name or URL the text came from. */
+  source: string;
+  /** Sanitized HTML. */
+  html: string;
+};
+
+/**
+ * How subtitle cues become text: merged into running paragraphs (sentences often span cues),
+ * or kept one cue per line so each cue is read and translated on its own.
+ */
+export type SubtitleMode = 'merge' | 'segments';
+
+export const IMPORT_FILE_TYPES = '.txt,.md,.markdown,.html,.htm,.xhtml,.epub,.srt,.vtt';
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const stripExtension = (filename: string): string => filename.replace(/\.[^.]+$/, '');
+
+/**
+ * Converts plain text to HTML: blank lines separate paragraphs, single line breaks are kept.
+ */
+export const textToHtml = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+/**
+ * Converts the Markdown a reader is likely to import (headings, paragraphs, lists, bold)
+ * to HTML. Links keep their text; images, code fences and other markup are dropped.
+ */
+export const markdownToHtml = (markdown: string): string => {
+  const inline = (text: string) =>
+    escapeHtml(text)
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/(\*\*|__)(.+?)\1/g, '<strong>$2</strong>')
+      .replace(/(^|[^\w*])[*_]([^*_]+)[*_](?![\w*])/g, '$1$2')
+      .replace(/`([^`]*)`/g, '$1');
+
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push(`<p>${paragraph.map(inline).join(' ')}</p>`);
+    paragraph = [];
+  };
+
+  let inFence = false;
+  for (const rawLine of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('```')) {
+      flushParagraph();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    const listItem = line.match(/^(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (!line || /^([-*_])\s*\1\s*\1[\s\-*_]*$/.test(line)) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      blocks.push(`<h${heading[1].length}>${inline(heading[2])}</h${heading[1].length}>`);
+    } else if (listItem) {
+      flushParagraph();
+      blocks.push(`<p>${inline(listItem[1])}</p>`);
+    } else {
+      paragraph.push(line.replace(/^>\s?/, ''));
+    }
+  }
+  flushParagraph();
+  return blocks.join('');
+};
+
+const TIMESTAMP = /(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{3}/;
+const CUE_TIMING = new RegExp(`^${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}`);
+
+const parseTimestamp = (timestamp: string): number => {
+  const parts = timestamp.replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+type Cue = { start: number; end: number; text: string };
+
+/**
+ * Extracts the cues of an SRT or WebVTT file: cue numbers, identifiers, settings,
+ * NOTE/STYLE blocks, formatting tags and positioning codes are removed.
+ */
+export const parseSubtitleCues = (content: string): Cue[] => {
+  const cues: Cue[] = [];
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex < 0) continue; // Header, NOTE, STYLE or REGION block
+
+    const [start, end] = lines[timingIndex].match(new RegExp(TIMESTAMP.source, 'g'))!.map(parseTimestamp);
+    const text = lines.slice(timingIndex + 1)
+      .map(line => line
+        .replace(/<[^>]*>/g, '') // <i>, <b>, <v Speaker>, <c.class>, karaoke timestamps
+        .replace(/\{\\[^}]*\}/g, '') // {\an8} positioning
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+        .trim())
+      .filter(Boolean)
+      .join('\n');
+    if (text) cues.push({ start, end, text });
+  }
+
+  return cues;
+};
+
+// A silence this long between cues starts a new paragraph when cues are merged.
+const PARAGRAPH_GAP_SECONDS = 3;
+
+/**
+ * Converts subtitles to HTML.
+ * In "merge" mode cue lines run together into paragraphs, broken at long pauses, and the dialogue
+ * dashes that mark a change of speaker start a new line. In "segments" mode every cue is its own line.
+ */
+export const subtitlesToHtml = (content: string, mode: SubtitleMode): string => {
+  const cues = parseSubtitleCues(content);
+  if (mode === 'segments') {
+    return cues.map(cue => `<p>${escapeHtml(cue.text.replace(/\n/g, ' '))}</p>`).join('');
+  }
+
+  const paragraphs: string[][] = [];
+  let previousEnd = -Infinity;
+  for (const cue of cues) {
+    if (cue.start - previousEnd >= PARAGRAPH_GAP_SECONDS || paragraphs.length === 0) paragraphs.push([]);
+    previousEnd = cue.end;
+    const current = paragraphs[paragraphs.length - 1];
+    for (const line of cue.text.split('\n')) {
+      const speakerLine = line.match(/^[-–—]\s*(.*)$/);
+      if (speakerLine) {
+        current.push(`\n${speakerLine[1]}`);
+      } else {
+        current.push(line);
+      }
+    }
+  }
+
+  return paragraphs
+    .map(lines => `<p>${escapeHtml(lines.join(' ').replace(/ \n/g, '\n').trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+};
+
+// Elements that never hold article text.
+const NON_CONTENT_SELECTOR = 'script, style, noscript, template, iframe, svg, form, button, nav, header, footer, aside, figure, menu';
+// Class or id fragments of page furniture around the article.
+const NON_CONTENT_PATTERN = /comment|share|social|related|promo|cookie|banner|sidebar|footer|navigation|menu|breadcrumb|advert|newsletter|subscribe/i;
+
+/**
+ * Scores block elements by the text they hold, the way readability tools do: every paragraph
+ * adds to its parent (and half to its grandparent) by length and commas, and link-heavy text counts less.
+ */
+const findMainContent = (doc: Document): Element => {
+  const semantic = doc.querySelector('article') || doc.querySelector('main') || doc.querySelector('[role="main"]');
+  if (semantic && (semantic.textContent || '').trim().length > 200) return semantic;
+
+  const scores = new Map<Element, number>();
+  doc.body.querySelectorAll('p, pre, td').forEach(paragraph => {
+    const text = (paragraph.textContent || '').trim();
+    if (text.length < 25) return;
+    const linkText = Array.from(paragraph.querySelectorAll('a')).reduce((sum, a) => sum + (a.textContent || '').length, 0);
+    const score = (1 + text.split(',').length + Math.min(text.length / 100, 3)) * (1 - linkText / text.length);
+    const parent = paragraph.parentElement;
+    if (!parent) return;
+    scores.set(parent, (scores.get(parent) || 0) + score);
+    const grandparent = parent.parentElement;
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+  });
+
+  let best: Element = doc.body;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    if (score > bestScore) {
+      best = element;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Extracts the readable article from a web page: its title and the headings and paragraphs
+ * of the main content, without navigation, ads, comments and other page furniture.
+ * @param html The page HTML.
+ * @returns The title and sanitized article HTML.
+ */
+export const extractArticle = (html: string): { title: string; html: string } => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const title = (
+    doc.querySelector('meta[property="og:title"]')?.getAttribute('content') ||
+    doc.querySelector('h1')?.textContent ||
+    doc.title ||
+    ''
+  ).trim();
+
+  doc.querySelectorAll(NON_CONTENT_SELECTOR).forEach(element => element.remove());
+  doc.body.querySelectorAll('[class], [id]').forEach(element => {
+    const names = `${element.getAttribute('class') || ''} ${element.id}`;
+    if (NON_CONTENT_PATTERN.test(names) && element.tagName !== 'BODY') element.remove();
+  });
+
+  const content = findMainContent(doc);
+  const blocks = Array.from(content.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li, blockquote'))
+    // Nested blocks (a paragraph in a list item) are included with their ancestor
+    .filter(block => !block.parentElement?.closest('p, li, blockquote'))
+    .filter(block => (block.textContent || '').trim().length > 0)
+    .map(block => {
+      const tag = /^H\d$/.test(block.tagName) ? block.tagName.toLowerCase() : 'p';
+      return `<${tag}>${block.innerHTML}</${tag}>`;
+    });
+
+  return {
+    title,
+    html: sanitizeHtml(blocks.length > 0 ? blocks.join('') : content.innerHTML),
+  };
+};
+
+/**
+ * Fetches a web page and extracts its article.
+ * Pages are fetched directly from the browser, so sites that do not allow cross-origin
+ * requests fail; saving the page and importing the .html file works for those.
+ */
+export const importFromUrl = async (url: string): Promise<ImportedText> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new Error("Could not fetch the page. The site may not allow it to be read from another site; save the page and import the .html file instead.");
+  }
+  if (!response.ok) throw new Error(`Could not fetch the page (HTTP ${response.status}).`);
+
+  const article = extractArticle(await response.text());
+  if (!article.html) throw new Error("No article text was found on the page.");
+  return { title: article.title || new URL(url).hostname, source: url, html: article.html };
+};
+
+/**
+ * Resolves a path inside an EPUB relative to the file that refers to it.
+ */
+const resolveEpubPath = (base: string, href: string): string => {
+  const segments = base.split('/').slice(0, -1);
+  for (const part of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (part === '..') segments.pop();
+    else if (part !== '.' && part !== '') segments.push(part);
+  }
+  return segments.join('/');
+};
+
+/**
+ * Reads the chapters of an EPUB book in reading order, following its package document's spine.
+ */
+export const epubToHtml = async (data: Uint8Array): Promise<{ title: string; html: string }> => {
+  const files = await readZip(data);
+  const decoder = new TextDecoder();
+  const readXml = (path: string) => {
+    const file = files.get(path);
+    if (!file) throw new Error(`The EPUB is missing ${path}.`);
+    return new DOMParser().parseFromString(decoder.decode(file), 'application/xml');
+  };
+
+  const packagePath = readXml('META-INF/container.xml').querySelector('rootfile')?.getAttribute('full-path');
+  if (!packagePath) throw new Error("The EPUB has no package document.");
+  const opf = readXml(packagePath);
+
+  const manifest = new Map<string, string>();
+  opf.querySelectorAll('manifest > item').forEach(item => {
+    manifest.set(item.getAttribute('id') || '', item.getAttribute('href') || '');
+  });
+
+  const chapters = Array.from(opf.querySelectorAll('spine > itemref'))
+    .map(itemref => manifest.get(itemref.getAttribute('idref') || ''))
+    .filter((href): href is string => Boolean(href))
+    .map(href => files.get(resolveEpubPath(packagePath, href)))
+    .filter((file): file is Uint8Array => Boolean(file))
+    .map(file => new DOMParser().parseFromString(decoder.decode(file), 'text/html').body?.innerHTML || '');
+
+  const title = opf.getElementsByTagNameNS('*', 'title')[0]?.textContent?.trim() || '';
+  return { title, html: sanitizeHtml(chapters.join('')) };
+};
+
+/**
+ * Reads a text, Markdown, HTML, EPUB or subtitle file. The result always passes through
+ * `sanitizeHtml`, so imported formatting follows the same rules as pasted text.
+ * @param file The file to import; its type is taken from the extension.
+ * @param subtitleMode How subtitle cues are laid out (see `SubtitleMode`).
+ */
+export const importFile = async (file: File, subtitleMode: SubtitleMode = 'merge'): Promise<ImportedText> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const fallbackTitle = stripExtension(file.name);
+
+  switch (extension) {
+    case 'txt':
+      return { title: fallbackTitle, source: file.name, html: sanitizeHtml(textToHtml(await file.text())) };
+    case 'md':
+    case 'markdown':
+      return { title: fallbackTitle, source: file.name, html: sanitizeHtml(markdownToHtml(await file.text())) };
+    case 'html':
+    case 'htm':
+    case 'xhtml': {
+      const article = extractArticle(await file.text());
+      return { title: article.title || fallbackTitle, source: file.name, html: article.html };
+    }
+    case 'epub': {
+      const book = await epubToHtml(new Uint8Array(await file.arrayBuffer()));
+      return { title: book.title || fallbackTitle, source: file.name, html: book.html };
+    }
+    case 'srt':
+    case 'vtt':
+      return { title: fallbackTitle, source: file.name, html: sanitizeHtml(subtitlesToHtml(await file.text(), subtitleMode)) };
+    default:
+      throw new Error(`Unsupported file type: .${extension}`);
+  }
+};
@@ -0,0 +1,518 @@
+import { InflectionClass, InflectionSection, InflectionTable } from "../types";
+
+export const NOUN_CASES = [
+  'Nominative', 'Accusative', 'Genitive', 'Partitive',
+  'Inessive', 'Elative', 'Illative',
+  'Adessive', 'Ablative', 'Allative',
+  'Essive', 'Translative',
+  'Abessive', 'Comitative', 'Instructive',
+];
+
+export const VERB_PERSONS = ['minä', 'sinä', 'hän', 'me', 'te', 'he', 'passive'];
+
+/** The sections of a conjugation table, in order. Tenses and moods have affirmative and negative columns. */
+export const VERB_SECTIONS = [
+  'Present indicative', 'Past indicative', 'Perfect indicative', 'Conditional', 'Imperative', 'Infinitives', 'Participles',
+];
+
+/** Marks a form that does not exist, such as the singular comitative. */
+export const MISSING_FORM = '—';
+
+const NEGATIVE_VERB = ['en', 'et', 'ei', 'emme', 'ette', 'eivät', 'ei'];
+const OLLA_PRESENT = ['olen', 'olet', 'on', 'olemme', 'olette', 'ovat', 'on'];
+
+const VOWEL = '[aeiouyäö]';
+const CONSONANT = '[^aeiouyäö]';
+
+/**
+ * Whether endings take back vowels (-a, -o, -u) or front ones (-ä, -ö, -y). The last
+ * harmonic vowel decides, so compounds follow their last part ("lentokenttä" → -ä).
+ */
+const hasBackHarmony = (word: string): boolean => {
+  const harmonic = word.match(/[aouäöy]/g);
+  return harmonic !== null && 'aou'.includes(harmonic[harmonic.length - 1]);
+};
+
+const FRONT_VOWELS: Record<string, string> = { a: 'ä', o: 'ö', u: 'y' };
+
+/**
+ * Builds a function that appends endings written with back vowels, turning them
+ * into front vowels for front-harmony words.
+ */
+const createSuffixer = (word: string) => {
+  const back = hasBackHarmony(word);
+  return (stem: string, ending: string): string =>
+    stem + (back ? ending : ending.replace(/[aou]/g, vowel => FRONT_VOWELS[vowel]));
+};
+
+const countSyllables = (word: string): number =>
+  word.split(/[^aeiouyäö]+/).filter(Boolean).reduce((count, group) => count + (group.length > 2 ? 2 : 1), 0);
+
+// Consonant gradation alternates the consonants that begin the last syllable of a stem
+const WEAKER_GRADES: Record<string, string> = {
+  kk: 'k', pp: 'p', tt: 't',
+  nk: 'ng', mp: 'mm', lt: 'll', nt: 'nn', rt: 'rr', ht: 'hd',
+  lk: 'l', rk: 'r',
+  p: 'v', t: 'd',
+};
+
+const STRONGER_GRADES: Record<string, string> = {
+  k: 'kk', p: 'pp', t: 'tt', d: 't', v: 'p',
+  ng: 'nk', mm: 'mp', ll: 'lt', nn: 'nt', rr: 'rt', hd: 'ht',
+};
+
+const splitLastSyllable = (stem: string) => {
+  const match = new RegExp(`^(.*${VOWEL})(${CONSONANT}+)(${VOWEL}+)$`).exec(stem);
+  return match ? { head: match[1], onset: match[2], tail: match[3] } : null;
+};
+
+/**
+ * The weak grade of a stem, e.g. "katu" → "kadu", "kukka" → "kuka", "ruoka" → "ruoa".
+ * A single k disappears, turning into v between two u's or y's ("puku" → "puvu")
+ * and making a preceding "ai" or "oi" into "aj", "oj" ("aika" → "aja").
+ */
+const weaken = (stem: string): string => {
+  const parts = splitLastSyllable(stem);
+  if (!parts) return stem;
+  const { head, onset, tail } = parts;
+  if (onset === 'k') {
+    if (/[uy]$/.test(head) && tail[0] === head[head.length - 1]) return `${head}v${tail}`;
+    if (/[ao]i$/.test(head)) return `${head.slice(0, -1)}j${tail}`;
+    return head + tail;
+  }
+  const weak = WEAKER_GRADES[onset];
+  return weak !== undefined ? head + weak + tail : stem;
+};
+
+/**
+ * The strong grade of a stem whose dictionary form is weak, e.g. "tavata" → "tapa-", "hame" → "hame-"
+ * and "liike" → "liikke-".
+ */
+export const strengthen = (stem: string, { gradeV = true } = {}): string => {
+  const parts = splitLastSyllable(stem);
+  if (!parts) return stem;
+  const { head, onset, tail } = parts;
+  if (onset === 'v' && !gradeV) return stem;
+  const strong = STRONGER_GRADES[onset];
+  return strong !== undefined ? head + strong + tail : stem;
+};
+
+// Loanwords that keep their consonants in every form
+const UNGRADED_WORDS = new Set(['auto', 'foto', 'demo', 'kilo', 'kaakao', 'risotto']);
+
+// --- Nominals ---
+
+type NounStems = {
+  strong: string;
+  weak: string;
+  partitive: string;
+  illative: string;
+  /** Plural stems, ending in -i. */
+  pluralStrong: string;
+  pluralWeak: string;
+  pluralGenitive: string;
+  pluralPartitive: string;
+  pluralIllative: string;
+};
+
+/**
+ * Derives the stems of a nominal from its dictionary form for the regular Kotus types
+ * 1–4 (talo, katu), 6 (paperi), 9 (kala), 10 (koira, päivä), 38 (nainen), 39 (vastaus)
+ * and 48 (hame). Returns null for other types, which cannot be told apart by their ending.
+ */
+const getNounStems = (word: string): NounStems | null => {
+  const suffix = createSuffixer(word);
+  const syllables = countSyllables(word);
+  const grade = (stem: string) => UNGRADED_WORDS.has(word) ? stem : weaken(stem);
+  const lastVowel = word[word.length - 1];
+
+  // nainen, ihminen (38)
+  if (word.endsWith('nen') && syllables >= 2) {
+    const base = word.slice(0, -3);
+    return {
+      strong: `${base}se`, weak: `${base}se`,
+      partitive: suffix(base, 'sta'),
+      illative: `${base}seen`,
+      pluralStrong: `${base}si`, pluralWeak: `${base}si`,
+      pluralGenitive: suffix(base, 'sten'),
+      pluralPartitive: suffix(base, 'sia'),
+      pluralIllative: `${base}siin`,
+    };
+  }
+
+  // vastaus, kysymys (39); -uus/-yys words (40) decline differently
+  if (/[uyoö]s$/.test(word) && !/(uu|yy|oo|öö)s$/.test(word) && syllables >= 2) {
+    const base = word.slice(0, -1);
+    return {
+      strong: `${base}kse`, weak: `${base}kse`,
+      partitive: suffix(word, 'ta'),
+      illative: `${base}kseen`,
+      pluralStrong: `${base}ksi`, pluralWeak: `${base}ksi`,
+      pluralGenitive: suffix(word, 'ten'),
+      pluralPartitive: suffix(`${base}ksi`, 'a'),
+      pluralIllative: `${base}ksiin`,
+    };
+  }
+
+  // hame, liike, osoite (48); the dictionary form has the weak grade
+  if (new RegExp(`${CONSONANT}e$`).test(word) && syllables >= 2) {
+    const stem = `${strengthen(word)}e`;
+    const plural = `${stem.slice(0, -1)}i`;
+    return {
+      strong: stem, weak: stem,
+      partitive: suffix(word, 'tta'),
+      illative: `${stem}seen`,
+      pluralStrong: plural, pluralWeak: plural,
+      pluralGenitive: `${plural}den / ${plural}tten`,
+      pluralPartitive: suffix(plural, 'ta'),
+      pluralIllative: `${plural}siin / ${plural}hin`,
+    };
+  }
+
+  // talo, katu, koulu, laatikko (1–4)
+  if (new RegExp(`${CONSONANT}[ouyö]$`).test(word) && syllables >= 2) {
+    const weak = grade(word);
+    return {
+      strong: word, weak,
+      partitive: suffix(word, 'a'),
+      illative: `${word}${lastVowel}n`,
+      pluralStrong: `${word}i`, pluralWeak: `${weak}i`,
+      pluralGenitive: `${word}jen`,
+      pluralPartitive: suffix(word, 'ja'),
+      pluralIllative: `${word}ihin`,
+    };
+  }
+
+  // kala, koira, päivä (9, 10). Longer words such as "omena" have several plural patterns.
+  if (new RegExp(`${CONSONANT}[aä]$`).test(word) && syllables === 2) {
+    const weak = grade(word);
+    // -a becomes -o- in the plural after a first syllable with a, e or i (kala → kaloja), otherwise it drops
+    const takesO = lastVowel === 'a' && /^[^aeiouyäö]*[aei]/.test(word);
+    const pluralOf = (stem: string) => takesO ? `${stem.slice(0, -1)}oi` : `${stem.slice(0, -1)}i`;
+    const pluralStrong = pluralOf(word);
+    return {
+      strong: word, weak,
+      partitive: suffix(word, 'a'),
+      illative: `${word}${lastVowel}n`,
+      pluralStrong, pluralWeak: pluralOf(weak),
+      pluralGenitive: takesO ? `${pluralStrong.slice(0, -1)}jen` : `${pluralStrong}en`,
+      pluralPartitive: takesO ? suffix(pluralStrong.slice(0, -1), 'ja') : suffix(pluralStrong, 'a'),
+      pluralIllative: takesO ? `${pluralStrong}hin` : `${pluralStrong}in`,
+    };
+  }
+
+  // paperi, banaani (6); two-syllable -i words may have an e-stem (ovi → oven) instead
+  if (new RegExp(`${CONSONANT}i$`).test(word) && syllables >= 3) {
+    const plural = `${word.slice(0, -1)}ei`;
+    return {
+      strong: word, weak: word,
+      partitive: suffix(word, 'a'),
+      illative: `${word}in`,
+      pluralStrong: plural, pluralWeak: plural,
+      pluralGenitive: `${plural}den / ${word}en`,
+      pluralPartitive: suffix(plural, 'ta'),
+      pluralIllative: `${plural}hin`,
+    };
+  }
+
+  return null;
+};
+
+const declineNoun = (word: string): InflectionSection | null => {
+  const stems = getNounStems(word);
+  if (!stems) return null;
+  const suffix = createSuffixer(word);
+  const { strong, weak, pluralStrong, pluralWeak } = stems;
+  const genitive = `${weak}n`;
+  const nominativePlural = `${weak}t`;
+
+  const singular = [
+    word, `${word} / ${genitive}`, genitive, stems.partitive,
+    suffix(weak, 'ssa'), suffix(weak, 'sta'), stems.illative,
+    suffix(weak, 'lla'), suffix(weak, 'lta'), `${weak}lle`,
+    suffix(strong, 'na'), `${weak}ksi`,
+    suffix(weak, 'tta'), MISSING_FORM, MISSING_FORM,
+  ];
+  const plural = [
+    nominativePlural, nominativePlural, stems.pluralGenitive, stems.pluralPartitive,
+    suffix(pluralWeak, 'ssa'), suffix(pluralWeak, 'sta'), stems.pluralIllative,
+    suffix(pluralWeak, 'lla'), suffix(pluralWeak, 'lta'), `${pluralWeak}lle`,
+    suffix(pluralStrong, 'na'), `${pluralWeak}ksi`,
+    suffix(pluralWeak, 'tta'), `${pluralStrong}neen`, `${pluralWeak}n`,
+  ];
+
+  return {
+    title: 'Declension',
+    columns: ['Singular', 'Plural'],
+    rows: NOUN_CASES.map((label, i) => ({ label, cells: [singular[i], plural[i]] })),
+  };
+};
+
+// --- Verbs ---
+
+type VerbStems = {
+  /** Stem of the 1st and 2nd persons, the negative and the singular imperative: "puhu", "lue". */
+  presentWeak: string;
+  /** Stem of the 3rd persons and the present participles: "puhu", "luke". */
+  presentStrong: string;
+  pastWeak: string;
+  pastStrong: string;
+  /** The conditional without personal ending: "puhuisi". */
+  conditional: string;
+  /** The active past participle, singular and plural: "puhunut", "puhuneet". */
+  pastParticiple: [string, string];
+  passivePresent: string;
+  /** The passive past without ending: "puhutt", to which -iin, -u and -ava are added. */
+  passiveStem: string;
+  secondInfinitive: string;
+  /** The plural imperative without ending: "puhu", to which -kaa and -ko are added. */
+  imperativeStem: string;
+};
+
+// Infinitives that look regular but are not
+const IRREGULAR_VERBS = new Set(['olla', 'tehdä', 'nähdä', 'käydä', 'juosta', 'seistä', 'maata']);
+
+/** The past stem of a vowel stem: "puhu" → "puhui", "luke" → "luki", "oppi" → "oppi", "juo" → "joi". */
+const toPastStem = (stem: string): string => {
+  if (/(uo|yö|ie)$/.test(stem)) return `${stem.slice(0, -2)}${stem[stem.length - 1]}i`;
+  if (new RegExp(`(${VOWEL})\\1$`).test(stem)) return `${stem.slice(0, -1)}i`;
+  if (/[ei]$/.test(stem)) return `${stem.slice(0, -1)}i`;
+  return `${stem}i`;
+};
+
+/** The conditional of a vowel stem: "puhu" → "puhuisi", "luke" → "lukisi", "tapaa" → "tapaisi". */
+const toConditional = (stem: string): string => {
+  if (/(uo|yö|ie)$/.test(stem)) return `${stem.slice(0, -2)}${stem[stem.length - 1]}isi`;
+  if (new RegExp(`(${VOWEL})\\1$`).test(stem) || /[ei]$/.test(stem)) return `${stem.slice(0, -1)}isi`;
+  if (/i$/.test(stem)) return `${stem}si`;
+  return `${stem}isi`;
+};
+
+/**
+ * Derives the stems of a verb from its infinitive for the regular Kotus types: -Va verbs
+ * (puhua, lukea, antaa; 52–61), -da verbs (syödä, saada; 62–64), -la/-na/-ra/-sta verbs
+ * (tulla, mennä, nousta; 66–67), -ita verbs (tarvita; 69) and -ata/-ota/-uta verbs
+ * (tavata, haluta; 73–74). Returns null for irregular verbs and for -eta verbs, whose type
+ * cannot be told from the infinitive.
+ */
+const getVerbStems = (verb: string): VerbStems | null => {
+  if (IRREGULAR_VERBS.has(verb) || countSyllables(verb) < 2) return null;
+  const suffix = createSuffixer(verb);
+  const withoutA = verb.slice(0, -1);
+
+  // -da: syödä, saada, voida
+  if (/[aeiouyäö]d[aä]$/.test(verb)) {
+    const stem = verb.slice(0, -2);
+    const past = toPastStem(stem);
+    return {
+      presentWeak: stem, presentStrong: stem, pastWeak: past, pastStrong: past,
+      conditional: `${past}si`,
+      pastParticiple: [suffix(stem, 'nut'), `${stem}neet`],
+      passivePresent: suffix(verb, 'an'),
+      passiveStem: `${stem}t`,
+      secondInfinitive: suffix(withoutA, 'essa'),
+      imperativeStem: stem,
+    };
+  }
+
+  // -la, -na, -ra, -sta: tulla, mennä, purra, nousta; -ella verbs strengthen (ajatella → ajattelen)
+  const consonantStem = /(ll|nn|rr)[aä]$/.test(verb) ? verb.slice(0, -2) : /st[aä]$/.test(verb) ? verb.slice(0, -2) : null;
+  if (consonantStem) {
+    const present = /el$/.test(consonantStem) && countSyllables(verb) >= 3
+      ? `${strengthen(consonantStem.slice(0, -2) + 'e', { gradeV: false }).slice(0, -1)}ele`
+      : `${consonantStem}e`;
+    const past = toPastStem(present);
+    const participleConsonant = consonantStem[consonantStem.length - 1];
+    return {
+      presentWeak: present, presentStrong: present, pastWeak: past, pastStrong: past,
+      conditional: toConditional(present),
+      pastParticiple: [suffix(consonantStem + participleConsonant, 'ut'), `${consonantStem}${participleConsonant}eet`],
+      passivePresent: suffix(verb, 'an'),
+      passiveStem: `${consonantStem}t`,
+      secondInfinitive: suffix(withoutA, 'essa'),
+      imperativeStem: consonantStem,
+    };
+  }
+
+  // -ita: tarvita, valita
+  if (/it[aä]$/.test(verb)) {
+    const base = verb.slice(0, -2);
+    const present = `${base}tse`;
+    return {
+      presentWeak: present, presentStrong: present, pastWeak: `${base}tsi`, pastStrong: `${base}tsi`,
+      conditional: `${base}tsisi`,
+      pastParticiple: [suffix(base, 'nnut'), `${base}nneet`],
+      passivePresent: suffix(verb, 'an'),
+      passiveStem: `${base}tt`,
+      secondInfinitive: suffix(withoutA, 'essa'),
+      imperativeStem: `${base}t`,
+    };
+  }
+
+  // -ata, -ota, -uta: tavata, pelata, haluta; the infinitive has the weak grade
+  if (new RegExp(`${CONSONANT}[aäoöuy]t[aä]$`).test(verb)) {
+    const base = verb.slice(0, -2);
+    const strongBase = strengthen(base);
+    const present = suffix(strongBase, 'a');
+    return {
+      presentWeak: present, presentStrong: present, pastWeak: `${strongBase}si`, pastStrong: `${strongBase}si`,
+      conditional: toConditional(present),
+      pastParticiple: [suffix(base, 'nnut'), `${base}nneet`],
+      passivePresent: suffix(verb, 'an'),
+      passiveStem: `${base}tt`,
+      secondInfinitive: suffix(withoutA, 'essa'),
+      imperativeStem: `${base}t`,
+    };
+  }
+
+  // -Va: puhua, sanoa, lukea, oppia, antaa
+  if (new RegExp(`${VOWEL}[aä]$`).test(verb) && !/[ei]t[aä]$/.test(verb)) {
+    const strong = withoutA;
+    const weak = weaken(strong);
+    // Two-syllable -aa verbs with a in the first syllable take -oi in the past (antaa → antoi); others drop the vowel
+    const takesOi = /a$/.test(strong) && countSyllables(verb) === 2 && /^[^aeiouyäö]*a/.test(verb);
+    // A single t may then turn into s (tietää → tiesi, lentää → lensi) or not (pitää → piti)
+    if (!takesOi && new RegExp(`(${VOWEL}|[lnr])t[aä]$`).test(strong)) return null;
+    const past = (stem: string): string => {
+      if (!/[aä]$/.test(stem)) return toPastStem(stem);
+      return takesOi ? `${stem.slice(0, -1)}oi` : `${stem.slice(0, -1)}i`;
+    };
+    const pastWeak = past(weak);
+    const pastStrong = past(strong);
+    const passiveBase = weak.replace(/[aä]$/, 'e');
+    return {
+      presentWeak: weak, presentStrong: strong, pastWeak, pastStrong,
+      conditional: toConditional(strong),
+      pastParticiple: [suffix(strong, 'nut'), `${strong}neet`],
+      passivePresent: suffix(passiveBase, 'taan'),
+      passiveStem: `${passiveBase}tt`,
+      secondInfinitive: suffix(strong.replace(/e$/, 'i'), 'essa'),
+      imperativeStem: strong,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Lengthens the final vowel for the 3rd person singular ("puhu" → "puhuu", "halua" → "haluaa"),
+ * except after a long vowel or in one-syllable stems ("tapaa", "syö").
+ */
+const toThirdPerson = (stem: string): string =>
+  new RegExp(`(${VOWEL})\\1$`).test(stem) || countSyllables(stem) === 1 ? stem : stem + stem[stem.length - 1];
+
+const conjugateVerb = (verb: string): InflectionSection[] | null => {
+  const stems = getVerbStems(verb);
+  if (!stems) return null;
+  const suffix = createSuffixer(verb);
+  const { presentWeak, presentStrong, pastWeak, pastStrong, conditional, pastParticiple, passiveStem } = stems;
+  const [participle, participlePlural] = pastParticiple;
+  const passivePast = `${passiveStem}iin`;
+  const passiveParticiple = suffix(passiveStem, 'u');
+  const passiveConditional = suffix(passiveStem, 'aisiin');
+  const participleFor = (person: number) => person >= 3 && person <= 5 ? participlePlural : participle;
+
+  const personal = (weak: string, strong: string, third = strong): string[] => [
+    `${weak}n`, `${weak}t`, third, `${weak}mme`, `${weak}tte`, suffix(strong, 'vat'),
+  ];
+  const section = (title: string, affirmative: string[], negative: string[]): InflectionSection => ({
+    title,
+    columns: ['Affirmative', 'Negative'],
+    rows: VERB_PERSONS.map((label, i) => ({ label, cells: [affirmative[i], negative[i]] })),
+  });
+  const withNegative = (form: (person: number) => string) => NEGATIVE_VERB.map((negative, i) => `${negative} ${form(i)}`);
+
+  return [
+    section(
+      VERB_SECTIONS[0],
+      [...personal(presentWeak, presentStrong, toThirdPerson(presentStrong)), stems.passivePresent],
+      withNegative(i => i === 6 ? stems.passivePresent.slice(0, -2) : presentWeak),
+    ),
+    section(
+      VERB_SECTIONS[1],
+      [...personal(pastWeak, pastStrong), passivePast],
+      withNegative(i => i === 6 ? passiveParticiple : participleFor(i)),
+    ),
+    section(
+      VERB_SECTIONS[2],
+      OLLA_PRESENT.map((olla, i) => `${olla} ${i === 6 ? passiveParticiple : participleFor(i)}`),
+      withNegative(i => `ole ${i === 6 ? passiveParticiple : participleFor(i)}`),
+    ),
+    section(
+      VERB_SECTIONS[3],
+      [...personal(conditional, conditional), passiveConditional],
+      withNegative(i => i === 6 ? passiveConditional.slice(0, -2) : conditional),
+    ),
+    {
+      title: VERB_SECTIONS[4],
+      columns: ['Affirmative', 'Negative'],
+      rows: [
+        { label: 'sinä', cells: [presentWeak, `älä ${presentWeak}`] },
+        { label: 'te', cells: [suffix(stems.imperativeStem, 'kaa'), `älkää ${suffix(stems.imperativeStem, 'ko')}`] },
+      ],
+    },
+    {
+      title: VERB_SECTIONS[5],
+      columns: ['Form'],
+      rows: [
+        { label: '1st', cells: [verb] },
+        { label: '2nd inessive', cells: [stems.secondInfinitive] },
+        { label: '3rd inessive', cells: [suffix(presentStrong, 'massa')] },
+        { label: '3rd elative', cells: [suffix(presentStrong, 'masta')] },
+        { label: '3rd illative', cells: [suffix(presentStrong, 'maan')] },
+        { label: '3rd adessive', cells: [suffix(presentStrong, 'malla')] },
+        { label: '3rd abessive', cells: [suffix(presentStrong, 'matta')] },
+      ],
+    },
+    {
+      title: VERB_SECTIONS[6],
+      columns: ['Form'],
+      rows: [
+        { label: 'Active present', cells: [suffix(presentStrong, 'va')] },
+        { label: 'Active past', cells: [participle] },
+        { label: 'Passive present', cells: [suffix(passiveStem, 'ava')] },
+        { label: 'Passive past', cells: [passiveParticiple] },
+        { label: 'Agent', cells: [suffix(presentStrong, 'ma')] },
+        { label: 'Negative', cells: [suffix(presentStrong, 'maton')] },
+      ],
+    },
+  ];
+};
+
+/**
+ * Generates the inflection table of a regular word offline, from rules for the common
+ * Kotus inflection types. Consonant gradation is applied, but words outside the supported
+ * types (and a few irregular verbs) are not attempted.
+ * @param baseForm The dictionary form: the nominative singular or the first infinitive.
+ * @param inflectionClass Whether to decline the word or conjugate it.
+ * @returns The table, or null if the word does not belong to a supported type.
+ */
+export const generateInflectionTable = (baseForm: string, inflectionClass: InflectionClass): InflectionTable | null => {
+  const word = baseForm.trim().toLowerCase();
+  if (!/^[a-zåäö]+$/.test(word)) return null;
+  const sections = inflectionClass === 'verb' ? conjugateVerb(word) : [declineNoun(word)].filter((s): s is InflectionSection => s !== null);
+  return sections && sections.length > 0 ? { baseForm: word, inflectionClass, sections } : null;
+};
+
+/**
+ * The inflection class of a part of speech as given in word analyses, or null for words
+ * that do not inflect (adverbs, conjunctions, particles).
+ */
+export const getInflectionClass = (partOfSpeech: string): InflectionClass | null => {
+  const lower = partOfSpeech.toLowerCase();
+  if (lower.includes('verb') && !lower.includes('adverb')) return 'verb';
+  if (/noun|adjective|numeral|pronoun/.test(lower)) return 'noun';
+  return null;
+};
+
+/**
+ * Whether a table cell contains a form, comparing each alternative case-insensitively.
+ * Compound forms such as "en puhu" or "olen puhunut" also match their last word.
+ */
+export const cellHasForm = (cell: string, form: string): boolean => {
+  const target = form.toLowerCase();
+  return cell.split(' / ').some(alternative => {
+    const words = alternative.trim().toLowerCase().split(/\s+/);
+    return words.join(' ') === target || words[words.length - 1] === target;
+  });
+};
@@ -0,0 +1,44 @@
+export type ShortcutAction = 'playPause' | 'previous' | 'next' | 'stop' | 'toggleLoop' | 'slower' | 'faster';
+
+export type KeyboardShortcut = {
+  action: ShortcutAction;
+  /** Values of `KeyboardEvent.key` that trigger the action. */
+  keys: string[];
+  /** The keys in the syntax of the `aria-keyshortcuts` attribute. */
+  ariaKeys: string;
+  label: string;
+};
+
+/**
+ * Playback shortcuts of the reading view. Word navigation (arrow keys, Enter) is handled by
+ * the text itself, and keys 1-4 set the status of the word in the open tooltip.
+ */
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { action: 'playPause', keys: [' '], ariaKeys: 'Space', label: 'Read aloud / pause' },
+  { action: 'previous', keys: ['p', 'P'], ariaKeys: 'P', label: 'Previous sentence' },
+  { action: 'next', keys: ['n', 'N'], ariaKeys: 'N', label: 'Next sentence' },
+  { action: 'stop', keys: ['s', 'S'], ariaKeys: 'S', label: 'Stop' },
+  { action: 'toggleLoop', keys: ['l', 'L'], ariaKeys: 'L', label: 'Repeat the current sentence' },
+  { action: 'slower', keys: ['-'], ariaKeys: '-', label: 'Slower' },
+  { action: 'faster', keys: ['+', '='], ariaKeys: '+', label: 'Faster' },
+];
+
+/**
+ * Finds the action of a key press, or null if it is not a shortcut. Presses with Ctrl, Cmd
+ * or Alt are left to the browser.
+ */
+export const getShortcutAction = (event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey'>): ShortcutAction | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  return KEYBOARD_SHORTCUTS.find(shortcut => shortcut.keys.includes(event.key))?.action ?? null;
+};
+
+export const getAriaKeyShortcuts = (action: ShortcutAction): string =>
+  KEYBOARD_SHORTCUTS.find(shortcut => shortcut.action === action)!.ariaKeys;
+
+/**
+ * Whether a key press goes to a field the user is typing in, where shortcuts must not fire.
+ */
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  return Boolean(element && (element.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(element.tagName)));
+};
@@ -0,0 +1,93 @@
+/**
+ * State machine for sentence-by-sentence read-aloud playback.
+ *
+ *   idle ──PLAY──▶ loading ──AUDIO_READY──▶ playing ◀──RESUME── paused
+ *                     ▲                        │  └────PAUSE─────▶┘
+ *                     └──── SENTENCE_ENDED ────┘ (next sentence, or the same one when looping)
+ *
+ * PLAY / SKIP start loading a sentence from any state; STOP, ERROR, or the end of the
+ * last sentence return to idle. Every transition that (re)starts a sentence bumps
+ * `requestId`, which the player uses to abandon audio belonging to an older request.
+ */
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export type PlaybackState = {
+  status: PlaybackStatus;
+  /** The sentence being loaded, played or paused; null when idle. */
+  sentenceIndex: number | null;
+  /** Repeat the current sentence instead of advancing (for shadowing practice). */
+  isLooping: boolean;
+  requestId: number;
+};
+
+export type PlaybackAction =
+  | { type: 'PLAY'; sentenceIndex: number }
+  | { type: 'AUDIO_READY' }
+  | { type: 'PAUSE' }
+  | { type: 'RESUME' }
+  | { type: 'SKIP'; offset: number; sentenceCount: number }
+  | { type: 'SENTENCE_ENDED'; sentenceCount: number }
+  | { type: 'TOGGLE_LOOP' }
+  | { type: 'STOP' }
+  | { type: 'ERROR' };
+
+export const initialPlaybackState: PlaybackState = {
+  status: 'idle',
+  sentenceIndex: null,
+  isLooping: false,
+  requestId: 0,
+};
+
+const load = (state: PlaybackState, sentenceIndex: number): PlaybackState => ({
+  ...state,
+  status: 'loading',
+  sentenceIndex,
+  requestId: state.requestId + 1,
+});
+
+const stop = (state: PlaybackState): PlaybackState => ({
+  ...state,
+  status: 'idle',
+  sentenceIndex: null,
+  requestId: state.requestId + 1,
+});
+
+export const playbackReducer = (state: PlaybackState, action: PlaybackAction): PlaybackState => {
+  switch (action.type) {
+    case 'PLAY':
+      return load(state, action.sentenceIndex);
+
+    case 'AUDIO_READY':
+      return state.status === 'loading' ? { ...state, status: 'playing' } : state;
+
+    case 'PAUSE':
+      return state.status === 'playing' ? { ...state, status: 'paused' } : state;
+
+    case 'RESUME':
+      return state.status === 'paused' ? { ...state, status: 'playing' } : state;
+
+    case 'SKIP': {
+      if (state.sentenceIndex === null) return state;
+      const target = Math.min(Math.max(state.sentenceIndex + action.offset, 0), action.sentenceCount - 1);
+      return load(state, target);
+    }
+
+    case 'SENTENCE_ENDED': {
+      if (state.sentenceIndex === null) return state;
+      if (state.isLooping) return load(state, state.sentenceIndex);
+      const next = state.sentenceIndex + 1;
+      return next < action.sentenceCount ? load(state, next) : stop(state);
+    }
+
+    case 'TOGGLE_LOOP':
+      return { ...state, isLooping: !state.isLooping };
+
+    case 'STOP':
+    case 'ERROR':
+      return state.status === 'idle' ? state : stop(state);
+
+    default:
+      return state;
+  }
+};
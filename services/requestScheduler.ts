@@ -0,0 +1,247 @@
+/**
+ * Options a caller can give for one request.
+ */
+export type RequestOptions = {
+  /** Cancels the request. A request shared by several callers is only cancelled once all of them abort. */
+  signal?: AbortSignal;
+  /** Requests with a higher priority start first; the default is 0. */
+  priority?: number;
+};
+
+export type ScheduleOptions = RequestOptions & {
+  /** Identifies the request: while one with the same key is queued or running, callers share its result. */
+  key?: string;
+};
+
+export type SchedulerOptions = {
+  /** How many requests may run at the same time. */
+  maxConcurrent: number;
+  /** How many requests may start in any 60-second window. */
+  requestsPerMinute: number;
+  /** How often a request is retried after a rate-limit (429), server (5xx) or network error. */
+  maxRetries: number;
+  /** The backoff before the first retry; it doubles with every further attempt. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxConcurrent: 4,
+  requestsPerMinute: 60,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+export type RequestScheduler = {
+  /**
+   * Queues a request and resolves with its result.
+   * @param run Performs the request; it must stop when the given signal aborts.
+   * @param options Deduplication key, priority and cancellation.
+   */
+  schedule: <T>(run: (signal: AbortSignal) => Promise<T>, options?: ScheduleOptions) => Promise<T>;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export const createAbortError = (): Error => new DOMException("The request was aborted.", 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+/**
+ * Whether a failed request may succeed when retried: rate limiting, server errors and network failures.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  if (error instanceof TypeError) return true; // fetch() reports network failures as TypeError
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status === 429 || (status >= 500 && status < 600);
+  const message = error instanceof Error ? error.message : '';
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message);
+};
+
+const isRateLimitError = (error: unknown): boolean =>
+  (error as { status?: unknown })?.status === 429 ||
+  (error instanceof Error && /\b429\b|RESOURCE_EXHAUSTED/.test(error.message));
+
+/**
+ * Reads the wait the server asked for from a rate-limit error (e.g. `"retryDelay": "12s"`
+ * in Gemini errors), in milliseconds, or null if it gave none.
+ */
+const getServerRetryDelay = (error: unknown): number | null => {
+  const message = error instanceof Error ? error.message : '';
+  const match = /retry(?:Delay)?\W{0,4}(?:in\s+)?(\d+(?:\.\d+)?)\s*s\b/i.exec(message);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+type Job = {
+  key?: string;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  priority: number;
+  /** The number of retries so far. */
+  attempt: number;
+  /** The earliest time the job may (re)start, for backoff. */
+  notBefore: number;
+  controller: AbortController;
+  /** Callers waiting for the result without having aborted. */
+  subscribers: number;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * Creates a scheduler that runs requests with bounded concurrency under a per-minute quota,
+ * retries transient failures with exponential backoff and jitter, and merges identical
+ * requests made while one is in flight. A rate-limit response pauses the whole queue,
+ * since every request shares the quota that ran out.
+ * @param options Limits; omitted ones take their default.
+ * @param random Source of jitter, replaceable for deterministic behaviour.
+ */
+export const createRequestScheduler = (
+  options: Partial<SchedulerOptions> = {},
+  random: () => number = Math.random
+): RequestScheduler => {
+  const { maxConcurrent, requestsPerMinute, maxRetries, baseDelayMs, maxDelayMs } = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  const queue: Job[] = [];
+  const jobsByKey = new Map<string, Job>();
+  const startTimes: number[] = [];
+  let active = 0;
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const backoff = (attempt: number): number => {
+    // "Equal jitter": at least half the exponential delay, so retries neither stampede nor stall
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return delay / 2 + random() * (delay / 2);
+  };
+
+  const forget = (job: Job) => {
+    if (job.key && jobsByKey.get(job.key) === job) jobsByKey.delete(job.key);
+  };
+
+  const pump = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    while (active < maxConcurrent && queue.length > 0) {
+      const now = Date.now();
+      while (startTimes.length > 0 && startTimes[0] <= now - MINUTE_MS) startTimes.shift();
+      const quotaFreeAt = startTimes.length >= requestsPerMinute ? startTimes[0] + MINUTE_MS : 0;
+      const earliestJob = Math.min(...queue.map(job => job.notBefore));
+      const startAt = Math.max(pausedUntil, quotaFreeAt, earliestJob);
+      if (startAt > now) {
+        timer = setTimeout(pump, startAt - now);
+        return;
+      }
+
+      // Highest priority first; the queue is in arrival order, so ties go to the oldest request
+      let next = -1;
+      queue.forEach((job, index) => {
+        if (job.notBefore <= now && (next < 0 || job.priority > queue[next].priority)) next = index;
+      });
+      const [job] = queue.splice(next, 1);
+      start(job, now);
+    }
+  };
+
+  const start = (job: Job, now: number) => {
+    active++;
+    startTimes.push(now);
+
+    // Wrapped so that a request that throws before returning a promise is handled like a failed one
+    new Promise<unknown>(resolve => resolve(job.run(job.controller.signal))).then(
+      value => {
+        active--;
+        forget(job);
+        job.resolve(value);
+        pump();
+      },
+      error => {
+        active--;
+        if (job.controller.signal.aborted) {
+          forget(job);
+          job.reject(createAbortError());
+        } else if (job.attempt < maxRetries && isRetryableError(error)) {
+          const delay = getServerRetryDelay(error) ?? backoff(job.attempt);
+          job.attempt++;
+          job.notBefore = Date.now() + delay;
+          if (isRateLimitError(error)) pausedUntil = Math.max(pausedUntil, job.notBefore);
+          console.warn(`Request failed, retrying in ${(delay / 1000).toFixed(1)} s (attempt ${job.attempt} of ${maxRetries}):`, error);
+          queue.push(job);
+        } else {
+          forget(job);
+          job.reject(error);
+        }
+        pump();
+      }
+    );
+  };
+
+  // A caller stopped waiting; the request is cancelled when nobody is left waiting for it.
+  const unsubscribe = (job: Job) => {
+    job.subscribers--;
+    if (job.subscribers > 0) return;
+    job.controller.abort();
+    forget(job); // Later callers with the same key start a fresh request
+    const index = queue.indexOf(job);
+    if (index >= 0) {
+      queue.splice(index, 1);
+      job.reject(createAbortError());
+      pump();
+    }
+  };
+
+  const subscribe = <T>(job: Job, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (!signal) {
+        job.promise.then(value => resolve(value as T), reject);
+        return;
+      }
+      const onAbort = () => {
+        reject(createAbortError());
+        unsubscribe(job);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      job.promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value as T);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+
+  const schedule = <T>(run: (signal: AbortSignal) => Promise<T>, scheduleOptions: ScheduleOptions = {}): Promise<T> => {
+    const { key, signal, priority = 0 } = scheduleOptions;
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    let job = key ? jobsByKey.get(key) : undefined;
+    if (job) {
+      job.priority = Math.max(job.priority, priority);
+    } else {
+      let resolve!: (value: unknown) => void;
+      let reject!: (error: unknown) => void;
+      const promise = new Promise<unknown>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      job = { key, run, priority, attempt: 0, notBefore: 0, controller: new AbortController(), subscribers: 0, promise, resolve, reject };
+      if (key) jobsByKey.set(key, job);
+      queue.push(job);
+    }
+
+    job.subscribers++;
+    const result = subscribe<T>(job, signal);
+    pump();
+    return result;
+  };
+
+  return { schedule };
+};
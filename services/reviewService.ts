@@ -0,0 +1,190 @@
+import { ReviewCard, ReviewCardType, ReviewGrade, VocabularyEntry } from "../types";
+import { openDatabase, requestToPromise, transactionDone, STORES } from "./database";
+import { Clock, systemClock, createCard, getCardId, scheduleCard, computeStreak, startOfDay } from "./srsScheduler";
+
+const STORAGE_KEY = 'finnish-analyser.review';
+
+export type ReviewLogEntry = {
+  id?: number;
+  cardId: string;
+  entryId: string;
+  type: ReviewCardType;
+  grade: ReviewGrade;
+  reviewedAt: number;
+  /** The interval the card was given, in days (0 when relearning). */
+  interval: number;
+};
+
+export type ReviewStats = {
+  dueCount: number;
+  dueByType: Record<ReviewCardType, number>;
+  reviewedToday: number;
+  totalReviews: number;
+  streak: number;
+};
+
+export type ReviewPreferences = {
+  /** Card types to create and review. */
+  cardTypes: ReviewCardType[];
+  /**
+   * Save words looked up in a text to the notebook, so they are reviewed without saving them by hand;
+   * at most `MAX_DAILY_COLLECTED_LOOKUPS` a day.
+   */
+  collectLookups: boolean;
+};
+
+export const CARD_TYPE_LABELS: Record<ReviewCardType, string> = {
+  'fi-en': 'Finnish → English',
+  'en-fi': 'English → Finnish',
+  'listening': 'Listening',
+  'cloze': 'Cloze',
+};
+
+const ALL_CARD_TYPES = Object.keys(CARD_TYPE_LABELS) as ReviewCardType[];
+
+export const DEFAULT_REVIEW_PREFERENCES: ReviewPreferences = {
+  cardTypes: ALL_CARD_TYPES,
+  collectLookups: true,
+};
+
+/** Looked-up words collected per day at most, so a long reading session does not flood the review queue. */
+export const MAX_DAILY_COLLECTED_LOOKUPS = 20;
+
+/** The tag of notebook entries collected from lookups. */
+export const LOOKUP_TAG = 'lookup';
+
+/**
+ * Counts the notebook entries collected from lookups since the start of today.
+ */
+export const countLookupsCollectedToday = (entries: VocabularyEntry[], clock: Clock = systemClock): number => {
+  const today = startOfDay(clock.now());
+  return entries.filter(entry => entry.tags.includes(LOOKUP_TAG) && entry.createdAt >= today).length;
+};
+
+export const loadReviewPreferences = (): ReviewPreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      cardTypes: Array.isArray(stored.cardTypes)
+        ? ALL_CARD_TYPES.filter(type => stored.cardTypes.includes(type))
+        : DEFAULT_REVIEW_PREFERENCES.cardTypes,
+      collectLookups: typeof stored.collectLookups === 'boolean' ? stored.collectLookups : DEFAULT_REVIEW_PREFERENCES.collectLookups,
+    };
+  } catch {
+    return DEFAULT_REVIEW_PREFERENCES;
+  }
+};
+
+export const saveReviewPreferences = (preferences: ReviewPreferences): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Not persisting the preferences is harmless.
+  }
+};
+
+/**
+ * Finds the word in the entry's sentence, for blanking it out in a cloze card.
+ * @returns The character range of the word, or null if the sentence does not contain it.
+ */
+export const findClozeRange = (entry: VocabularyEntry): { start: number; end: number } | null => {
+  const escaped = entry.word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`(?<![\\p{L}\\p{M}])${escaped}(?![\\p{L}\\p{M}])`, 'iu').exec(entry.sentence);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+/**
+ * The card types an entry can be reviewed with. Cloze needs the word to appear in the sentence.
+ */
+const getCardTypes = (entry: VocabularyEntry, enabledTypes: ReviewCardType[]): ReviewCardType[] =>
+  enabledTypes.filter(type => type !== 'cloze' || findClozeRange(entry) !== null);
+
+/**
+ * Creates cards for new notebook entries and removes the cards of deleted ones.
+ * Existing cards keep their schedule; cards of disabled types are kept but not reviewed.
+ */
+export const syncReviewCards = async (
+  entries: VocabularyEntry[],
+  enabledTypes: ReviewCardType[],
+  clock: Clock = systemClock
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.reviewCards, 'readwrite');
+  const store = transaction.objectStore(STORES.reviewCards);
+  const existingIds = new Set(await requestToPromise<IDBValidKey[]>(store.getAllKeys()));
+  const now = clock.now();
+
+  const wantedIds = new Set<string>();
+  for (const entry of entries) {
+    for (const type of getCardTypes(entry, ALL_CARD_TYPES)) {
+      const id = getCardId(entry.id, type);
+      wantedIds.add(id);
+      if (!existingIds.has(id) && enabledTypes.includes(type)) {
+        store.put(createCard(entry.id, type, now));
+      }
+    }
+  }
+  existingIds.forEach(id => {
+    if (!wantedIds.has(id as string)) store.delete(id);
+  });
+  await transactionDone(transaction);
+};
+
+/**
+ * Returns the cards due now, most overdue first.
+ */
+export const getDueCards = async (
+  enabledTypes: ReviewCardType[],
+  clock: Clock = systemClock
+): Promise<ReviewCard[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.reviewCards, 'readonly');
+  const range = IDBKeyRange.upperBound(clock.now());
+  const cards = await requestToPromise<ReviewCard[]>(transaction.objectStore(STORES.reviewCards).index('due').getAll(range));
+  return cards.filter(card => enabledTypes.includes(card.type));
+};
+
+/**
+ * Applies a grade to a card, persisting its new schedule and logging the review.
+ * @returns The rescheduled card.
+ */
+export const recordReview = async (
+  card: ReviewCard,
+  grade: ReviewGrade,
+  clock: Clock = systemClock
+): Promise<ReviewCard> => {
+  const now = clock.now();
+  const next = scheduleCard(card, grade, now);
+  const log: ReviewLogEntry = { cardId: card.id, entryId: card.entryId, type: card.type, grade, reviewedAt: now, interval: next.interval };
+
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.reviewCards, STORES.reviewLog], 'readwrite');
+  transaction.objectStore(STORES.reviewCards).put(next);
+  transaction.objectStore(STORES.reviewLog).add(log);
+  await transactionDone(transaction);
+  return next;
+};
+
+export const getReviewStats = async (
+  enabledTypes: ReviewCardType[],
+  clock: Clock = systemClock
+): Promise<ReviewStats> => {
+  const now = clock.now();
+  const due = await getDueCards(enabledTypes, clock);
+  const dueByType = Object.fromEntries(ALL_CARD_TYPES.map(type => [type, 0])) as Record<ReviewCardType, number>;
+  due.forEach(card => { dueByType[card.type]++; });
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.reviewLog, 'readonly');
+  const log = await requestToPromise<ReviewLogEntry[]>(transaction.objectStore(STORES.reviewLog).getAll());
+  const reviewTimes = log.map(entry => entry.reviewedAt);
+
+  const today = startOfDay(now);
+  return {
+    dueCount: due.length,
+    dueByType,
+    reviewedToday: reviewTimes.filter(time => time >= today && time <= now).length,
+    totalReviews: reviewTimes.length,
+    streak: computeStreak(reviewTimes.filter(time => time <= now), now),
+  };
+};
@@ -0,0 +1,113 @@
+import { SpeechSettings } from "../types";
+
+const STORAGE_KEY = 'finnish-analyser.speech';
+
+/**
+ * Prebuilt voices of the Gemini TTS models, with their published characteristics.
+ */
+export const TTS_VOICES: { name: string; description: string }[] = [
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Zephyr', description: 'Bright' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Orus', description: 'Firm' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Callirrhoe', description: 'Easy-going' },
+  { name: 'Autonoe', description: 'Bright' },
+  { name: 'Enceladus', description: 'Breathy' },
+  { name: 'Iapetus', description: 'Clear' },
+  { name: 'Umbriel', description: 'Easy-going' },
+  { name: 'Algieba', description: 'Smooth' },
+  { name: 'Despina', description: 'Smooth' },
+  { name: 'Erinome', description: 'Clear' },
+  { name: 'Algenib', description: 'Gravelly' },
+  { name: 'Rasalgethi', description: 'Informative' },
+  { name: 'Laomedeia', description: 'Upbeat' },
+  { name: 'Achernar', description: 'Soft' },
+  { name: 'Alnilam', description: 'Firm' },
+  { name: 'Schedar', description: 'Even' },
+  { name: 'Gacrux', description: 'Mature' },
+  { name: 'Pulcherrima', description: 'Forward' },
+  { name: 'Achird', description: 'Friendly' },
+  { name: 'Zubenelgenubi', description: 'Casual' },
+  { name: 'Vindemiatrix', description: 'Gentle' },
+  { name: 'Sadachbia', description: 'Lively' },
+  { name: 'Sadaltager', description: 'Knowledgeable' },
+  { name: 'Sulafat', description: 'Warm' },
+];
+
+/**
+ * Suggested speaking styles; any other instruction can be typed in.
+ */
+export const SPEECH_STYLE_PRESETS = [
+  'slowly and clearly for a language learner',
+  'in a calm, warm tone',
+  'like a news reader',
+  'like telling a story to a child',
+];
+
+/** The range and step of the speed control. */
+export const MIN_SPEECH_RATE = 0.5;
+export const MAX_SPEECH_RATE = 2;
+export const SPEECH_RATE_STEP = 0.1;
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voice: 'Kore',
+  style: '',
+  rate: 1,
+  rateMode: 'synthesized',
+};
+
+/**
+ * Reads the speech settings saved in this browser, falling back to the defaults field by field.
+ */
+export const loadSpeechSettings = (): SpeechSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      voice: TTS_VOICES.some(v => v.name === stored.voice) ? stored.voice : DEFAULT_SPEECH_SETTINGS.voice,
+      style: typeof stored.style === 'string' ? stored.style : DEFAULT_SPEECH_SETTINGS.style,
+      rate: typeof stored.rate === 'number' && stored.rate > 0 ? stored.rate : DEFAULT_SPEECH_SETTINGS.rate,
+      rateMode: stored.rateMode === 'stretched' ? 'stretched' : 'synthesized',
+    };
+  } catch {
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Not persisting the settings is harmless.
+  }
+};
+
+/**
+ * The rate to set on the audio element. Synthesized-rate clips already have the requested speed.
+ */
+export const getPlaybackRate = (settings: SpeechSettings): number =>
+  settings.rateMode === 'stretched' ? settings.rate : 1;
+
+/**
+ * The speaking rate to ask of the TTS model, or 1 when the rate is applied at playback.
+ */
+export const getSynthesisRate = (settings: SpeechSettings): number =>
+  settings.rateMode === 'synthesized' ? Math.round(settings.rate * 10) / 10 : 1;
+
+/**
+ * Identifies the settings that change synthesized audio, for keying audio caches.
+ * Clips made with other settings must not be reused.
+ */
+export const getSpeechCacheKey = (settings: SpeechSettings): string =>
+  [settings.voice, settings.style.trim(), getSynthesisRate(settings)].join('|');
+
+/**
+ * Changes a speaking rate by a number of steps of the speed control, staying within its range.
+ */
+export const stepSpeechRate = (rate: number, steps: number): number => {
+  const next = Math.round((rate + steps * SPEECH_RATE_STEP) * 10) / 10;
+  return Math.min(MAX_SPEECH_RATE, Math.max(MIN_SPEECH_RATE, next));
+};
@@ -0,0 +1,83 @@
+import { Token } from "./tokenizer";
+
+/**
+ * When a word is spoken within a clip, identified by the token's start offset in the text.
+ */
+export type WordTiming = {
+  tokenStart: number;
+  startTime: number;
+  endTime: number;
+};
+
+const VOWELS = 'aeiouyäöå';
+
+// Vowel pairs that form a single syllable nucleus: long vowels and Finnish diphthongs.
+const NUCLEI = new Set([
+  'aa', 'ee', 'ii', 'oo', 'uu', 'yy', 'ää', 'öö',
+  'ai', 'ei', 'oi', 'ui', 'yi', 'äi', 'öi',
+  'au', 'eu', 'iu', 'ou', 'ey', 'iy', 'äy', 'öy',
+  'ie', 'uo', 'yö',
+]);
+
+// Relative pause lengths after punctuation, in syllables.
+const PAUSE_WEIGHTS: Record<string, number> = { ',': 1, ';': 1.5, ':': 1.5, '.': 2, '!': 2, '?': 2, '…': 2, '–': 1, '—': 1 };
+
+/**
+ * Estimates the number of syllables in a Finnish word by counting vowel nuclei:
+ * a long vowel or diphthong counts once, any other vowel sequence splits into syllables.
+ * Digits are counted as two syllables each, a rough average for spoken Finnish numerals.
+ */
+export const countSyllables = (word: string): number => {
+  const lower = word.toLowerCase();
+  const digits = (lower.match(/\d/g) || []).length;
+
+  let syllables = 0;
+  for (let i = 0; i < lower.length; i++) {
+    if (!VOWELS.includes(lower[i])) continue;
+    syllables++;
+    // A nucleus only spans two vowels, so "aie" is "ai" + "e"
+    if (i + 1 < lower.length && NUCLEI.has(lower[i] + lower[i + 1])) i++;
+  }
+
+  return Math.max(1, syllables + digits * 2);
+};
+
+/**
+ * Estimates when each word of a sentence is spoken, by distributing the clip duration
+ * over the words in proportion to their syllable counts, with pauses after punctuation.
+ * @param tokens The tokens of the spoken sentence, in order.
+ * @param duration The clip duration in seconds (at normal playback rate).
+ * @returns Timings for the word and number tokens, in order.
+ */
+export const estimateWordTimings = (tokens: Token[], duration: number): WordTiming[] => {
+  const weights = tokens.map(token =>
+    token.type === 'punctuation' ? (PAUSE_WEIGHTS[token.text[0]] ?? 0) : countSyllables(token.text)
+  );
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight === 0 || !isFinite(duration) || duration <= 0) return [];
+
+  const secondsPerUnit = duration / totalWeight;
+  const timings: WordTiming[] = [];
+  let time = 0;
+  tokens.forEach((token, i) => {
+    const length = weights[i] * secondsPerUnit;
+    if (token.type !== 'punctuation') {
+      timings.push({ tokenStart: token.start, startTime: time, endTime: time + length });
+    }
+    time += length;
+  });
+  return timings;
+};
+
+/**
+ * Finds the word being spoken at a playback position. During a pause the previous word stays current.
+ * @returns The token start offset of the word, or null before the first word starts.
+ */
+export const findWordAtTime = (timings: WordTiming[], time: number): number | null => {
+  let current: number | null = null;
+  for (const timing of timings) {
+    if (time < timing.startTime) break;
+    current = timing.tokenStart;
+  }
+  return current;
+};
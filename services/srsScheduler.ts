@@ -0,0 +1,110 @@
+import { ReviewCard, ReviewCardType, ReviewGrade } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A card graded "again" comes back within the same session after this delay. */
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+const INITIAL_EASE = 2.5;
+const MINIMUM_EASE = 1.3;
+
+/**
+ * The source of the current time. Scheduling takes a clock instead of calling Date.now()
+ * so reviews, due counts and streaks can be computed for any given moment.
+ */
+export type Clock = {
+  now: () => number;
+};
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+export const getCardId = (entryId: string, type: ReviewCardType): string => `${entryId}:${type}`;
+
+/**
+ * Creates a new card, due immediately.
+ */
+export const createCard = (entryId: string, type: ReviewCardType, now: number): ReviewCard => ({
+  id: getCardId(entryId, type),
+  entryId,
+  type,
+  due: now,
+  interval: 0,
+  easeFactor: INITIAL_EASE,
+  repetitions: 0,
+  lapses: 0,
+  lastReviewed: null,
+});
+
+// Grades mapped to SM-2 response quality (0-5); below 3 is a failed recall.
+const QUALITY: Record<ReviewGrade, number> = { 0: 2, 1: 3, 2: 4, 3: 5 };
+
+/**
+ * Schedules a card after a review, using the SM-2 algorithm: a failed recall restarts
+ * the card with a short relearning delay; a successful one grows the interval by the
+ * card's ease factor, which itself adapts to how hard the answers were.
+ * "Hard" answers grow the interval less and "easy" ones more than SM-2 alone would.
+ */
+export const scheduleCard = (card: ReviewCard, grade: ReviewGrade, now: number): ReviewCard => {
+  const quality = QUALITY[grade];
+  const easeFactor = Math.max(MINIMUM_EASE, card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    return {
+      ...card,
+      due: now + RELEARN_DELAY_MS,
+      interval: 0,
+      easeFactor,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      lastReviewed: now,
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  let interval: number;
+  if (repetitions === 1) {
+    interval = grade === 3 ? 4 : 1;
+  } else if (repetitions === 2) {
+    interval = grade === 1 ? 3 : 6;
+  } else {
+    const multiplier = grade === 1 ? 1.2 : grade === 3 ? easeFactor * 1.3 : easeFactor;
+    interval = Math.max(card.interval + 1, Math.round(card.interval * multiplier));
+  }
+
+  return {
+    ...card,
+    due: now + interval * DAY_MS,
+    interval,
+    easeFactor,
+    repetitions,
+    lastReviewed: now,
+  };
+};
+
+/**
+ * Returns the local midnight starting the day that contains `time`.
+ */
+export const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * Counts the consecutive days with at least one review, ending today, or yesterday
+ * if there has been no review yet today (the streak is not broken until the day is over).
+ * @param reviewTimes Times of past reviews, in any order.
+ */
+export const computeStreak = (reviewTimes: number[], now: number): number => {
+  const days = new Set(reviewTimes.map(startOfDay));
+  let day = startOfDay(now);
+  if (!days.has(day)) day = startOfDay(day - DAY_MS / 2);
+
+  let streak = 0;
+  while (days.has(day)) {
+    streak++;
+    // Step back half a day before taking midnight, so daylight saving changes don't skip a day
+    day = startOfDay(day - DAY_MS / 2);
+  }
+  return streak;
+};
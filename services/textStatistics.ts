@@ -0,0 +1,127 @@
+import { Token, TokenizedText } from "./tokenizer";
+import { findListedLemma, getFrequencyRank, VERY_COMMON_MAX_RANK } from "./frequencyService";
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export type FrequentWord = {
+  lemma: string;
+  count: number;
+  /** Rank in the frequency list, or null if the lemma is not listed. */
+  rank: number | null;
+};
+
+export type TextStatistics = {
+  wordCount: number;
+  sentenceCount: number;
+  uniqueWordCount: number;
+  uniqueLemmaCount: number;
+  /** Words per sentence. */
+  averageSentenceLength: number;
+  /** Letters per word. */
+  averageWordLength: number;
+  /** Distinct word forms divided by running words; lower means more repetition. */
+  typeTokenRatio: number;
+  frequentWords: FrequentWord[];
+  /**
+   * Shares of the running words with a known lemma (excluding likely names) that are among the very common
+   * and all listed lemmas, and the share of running words whose lemma is known.
+   */
+  coverage: { veryCommon: number; listed: number; recognized: number };
+  estimatedLevel: CefrLevel;
+};
+
+// Minimum difficulty score for each level above A1, most demanding first. Calibrated on sample
+// texts of known level: textbook A1–A2 texts, news and opinion pieces (B1–B2), and academic,
+// literary and legal prose (C1–C2), which the score separates less reliably.
+const LEVEL_THRESHOLDS: [CefrLevel, number][] = [
+  ['C2', 14],
+  ['C1', 13.2],
+  ['B2', 11.5],
+  ['B1', 9.2],
+  ['A2', 7.6],
+];
+
+/**
+ * Estimates the CEFR level a reader needs for a text. Long words (compounds and derivations),
+ * long sentences and recognized words outside the most common lemmas all raise the score.
+ */
+export const estimateCefrLevel = (
+  { averageWordLength, averageSentenceLength, coverage }: Pick<TextStatistics, 'averageWordLength' | 'averageSentenceLength' | 'coverage'>
+): CefrLevel => {
+  const score = averageWordLength + 0.15 * averageSentenceLength + 5 * (1 - coverage.veryCommon);
+  return LEVEL_THRESHOLDS.find(([, threshold]) => score >= threshold)?.[0] ?? 'A1';
+};
+
+/**
+ * Computes counts, lexical variety and an estimated level for an analysed text.
+ * @param tokenized The tokenized text.
+ * @param getBaseForm Returns a word token's analysed base form, when known.
+ * @param topCount How many of the most frequent lemmas to report.
+ */
+export const computeTextStatistics = (
+  tokenized: TokenizedText,
+  getBaseForm: (token: Token) => string | undefined,
+  topCount = 15
+): TextStatistics => {
+  const words = tokenized.tokens.filter(token => token.type === 'word');
+  const forms = new Set<string>();
+  const lemmaCounts = new Map<string, number>();
+  const seenSentences = new Set<number>();
+  let letters = 0;
+  let counted = 0;
+  let recognized = 0;
+  let veryCommon = 0;
+  let listed = 0;
+
+  for (const token of words) {
+    const form = token.text.toLowerCase();
+    forms.add(form);
+    letters += form.replace(/[^\p{L}]/gu, '').length;
+
+    const baseForm = getBaseForm(token);
+    const listedLemma = findListedLemma(form, baseForm);
+    const lemma = listedLemma ?? (baseForm || form).toLowerCase();
+    lemmaCounts.set(lemma, (lemmaCounts.get(lemma) || 0) + 1);
+
+    // Capitalized words inside a sentence are most likely names, which no word list covers
+    const isSentenceStart = !seenSentences.has(token.sentenceId);
+    seenSentences.add(token.sentenceId);
+    if (!isSentenceStart && token.text[0] !== form[0]) continue;
+
+    counted++;
+    // A form with no known lemma may be a rare word or one suffix stripping cannot reduce,
+    // so it is left out of the coverage instead of counting as rare
+    if (!listedLemma && !baseForm) continue;
+    recognized++;
+    const rank = getFrequencyRank(lemma);
+    if (rank !== null) {
+      listed++;
+      if (rank <= VERY_COMMON_MAX_RANK) veryCommon++;
+    }
+  }
+
+  const coverage = {
+    veryCommon: recognized > 0 ? veryCommon / recognized : 0,
+    listed: recognized > 0 ? listed / recognized : 0,
+    recognized: counted > 0 ? recognized / counted : 0,
+  };
+  const frequentWords = Array.from(lemmaCounts, ([lemma, count]) => ({ lemma, count, rank: getFrequencyRank(lemma) }))
+    .sort((a, b) => b.count - a.count || a.lemma.localeCompare(b.lemma, 'fi'))
+    .slice(0, topCount);
+
+  const sentenceCount = tokenized.sentences.length;
+  const averageSentenceLength = sentenceCount > 0 ? words.length / sentenceCount : 0;
+  const averageWordLength = words.length > 0 ? letters / words.length : 0;
+  return {
+    wordCount: words.length,
+    sentenceCount,
+    uniqueWordCount: forms.size,
+    uniqueLemmaCount: lemmaCounts.size,
+    averageSentenceLength,
+    averageWordLength,
+    typeTokenRatio: words.length > 0 ? forms.size / words.length : 0,
+    frequentWords,
+    coverage,
+    estimatedLevel: counted > 0 ? estimateCefrLevel({ averageWordLength, averageSentenceLength, coverage }) : 'A1',
+  };
+};
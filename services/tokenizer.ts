@@ -0,0 +1,168 @@
+import { htmlToPlainText } from "./htmlService";
+
+export type TokenType = 'word' | 'number' | 'punctuation';
+
+/**
+ * A word, number or punctuation mark with its character offsets in the plain text.
+ * Whitespace is not tokenized; it is whatever lies between tokens.
+ */
+export type Token = {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+  /** The sentence the token belongs to, or -1 for stray punctuation before the first sentence. */
+  sentenceId: number;
+};
+
+export type Sentence = {
+  id: number;
+  text: string;
+  start: number;
+  end: number;
+};
+
+export type TokenizedText = {
+  text: string;
+  tokens: Token[];
+  sentences: Sentence[];
+};
+
+// Abbreviations whose period does not end a sentence (compared in lowercase).
+const ABBREVIATIONS = new Set([
+  'esim', 'n', 'ns', 'mm', 'ks', 'vrt', 'huom', 'klo', 'ko', 's', 'v', 'vs', 'os', 'puh',
+  'prof', 'tri', 'dos', 'milj', 'mrd', 'kpl', 'nro', 'ekr', 'jkr', 'eaa', 'jaa', 'ts', 'em',
+  'jne', 'yms', 'tms', 'ym', 'ymv', 'ml', 'mt', 'pv', 'vk', 'kk', 'h', 'min', 'yht',
+]);
+
+// Abbreviations that often stand at the end of a sentence; these do end one before a capitalised word.
+const SENTENCE_FINAL_ABBREVIATIONS = new Set(['jne', 'yms', 'tms', 'ym', 'ymv']);
+
+// Closing quotes and brackets that belong to the sentence they follow. Finnish uses ” on both sides of a quote.
+const CLOSING_PUNCTUATION = /^[”"»’')\]]$/;
+
+const TERMINAL_PUNCTUATION = /^[.!?…]+$/;
+
+const TOKEN_REGEX = new RegExp([
+  // Initialisms with internal periods, e.g. "n.k.", "U.S.A."
+  String.raw`(?<initialism>(?:\p{L}\.){2,})`,
+  // Numbers, times and dates ("12.30", "1.5.2024", "3,5"), with case endings ("5:llä", "2000-luvulla")
+  String.raw`(?<number>\d+(?:[.,:]\d+)*(?:[:-]\p{L}+)?)`,
+  // Words, including hyphenated compounds ("EU-maa"), apostrophes ("vaa'an") and colon case endings ("EU:n")
+  String.raw`(?<word>\p{L}[\p{L}\p{M}]*(?:[-'’]\p{L}[\p{L}\p{M}]*)*(?::\p{L}+)?)`,
+  String.raw`(?<space>\s+)`,
+  // Runs of sentence-final punctuation ("?!", "..."), or any other single character
+  String.raw`(?<punctuation>[.!?…]+|.)`,
+].join('|'), 'gsu');
+
+type RawToken = Omit<Token, 'sentenceId'> & { isSpace: boolean; hasNewline: boolean };
+
+const startsLowercase = (token: RawToken): boolean =>
+  token.type === 'word' && token.text[0] !== token.text[0].toUpperCase();
+
+/**
+ * Decides whether the terminal punctuation at `index` ends its sentence.
+ * A following lowercase word continues the sentence (ordinals such as "6. joulukuuta",
+ * quotations such as "”Tuletko?” hän kysyi"), and abbreviation periods ("esim.", "n. 5") do not end one.
+ */
+const endsSentence = (raw: RawToken[], index: number): boolean => {
+  let nextIndex = index + 1;
+  while (nextIndex < raw.length && (raw[nextIndex].isSpace || (raw[nextIndex].type === 'punctuation' && CLOSING_PUNCTUATION.test(raw[nextIndex].text)))) {
+    if (raw[nextIndex].hasNewline) return true;
+    nextIndex++;
+  }
+  const next = raw[nextIndex];
+  if (!next) return true;
+  if (startsLowercase(next)) return false;
+
+  const token = raw[index];
+  const previous = raw[index - 1];
+  if (token.text === '.' && previous && previous.end === token.start && previous.type === 'word') {
+    const abbreviation = previous.text.toLowerCase();
+    if (ABBREVIATIONS.has(abbreviation)) {
+      return SENTENCE_FINAL_ABBREVIATIONS.has(abbreviation) && next.type === 'word';
+    }
+  }
+  return true;
+};
+
+/**
+ * Splits plain text into words, numbers and punctuation, and groups them into sentences.
+ * Sentences end at terminal punctuation (with any closing quotes) or at a line break.
+ * Finnish abbreviations, ordinals, times and dates do not break sentences.
+ * @param text The plain text to tokenize.
+ * @returns The tokens and sentences, with character offsets into `text`. Sentence IDs
+ *          are indices into `sentences` and are shared by analysis, rendering and TTS.
+ */
+export const tokenize = (text: string): TokenizedText => {
+  const raw: RawToken[] = [];
+  for (const match of text.matchAll(TOKEN_REGEX)) {
+    const groups = match.groups!;
+    const start = match.index!;
+    const value = match[0];
+    const base = { text: value, start, end: start + value.length };
+    if (groups.space !== undefined) {
+      raw.push({ ...base, type: 'punctuation', isSpace: true, hasNewline: value.includes('\n') });
+    } else {
+      const type: TokenType = groups.number !== undefined ? 'number' : groups.punctuation !== undefined ? 'punctuation' : 'word';
+      raw.push({ ...base, type, isSpace: false, hasNewline: false });
+    }
+  }
+
+  const tokens: Token[] = [];
+  const sentences: Sentence[] = [];
+  let pending: Token[] = [];
+
+  // Closes the pending sentence. Punctuation-only runs join the previous sentence
+  // (or wait for the next one if there is none yet).
+  const flush = () => {
+    if (pending.length === 0) return;
+    const hasContent = pending.some(t => t.type !== 'punctuation');
+    if (hasContent) {
+      const id = sentences.length;
+      const start = pending[0].start;
+      const end = pending[pending.length - 1].end;
+      pending.forEach(t => { t.sentenceId = id; });
+      sentences.push({ id, text: text.slice(start, end), start, end });
+    } else if (sentences.length > 0) {
+      const last = sentences[sentences.length - 1];
+      pending.forEach(t => { t.sentenceId = last.id; });
+      last.end = pending[pending.length - 1].end;
+      last.text = text.slice(last.start, last.end);
+    } else {
+      return;
+    }
+    pending = [];
+  };
+
+  for (let i = 0; i < raw.length; i++) {
+    const { isSpace, hasNewline, ...rest } = raw[i];
+    if (isSpace) {
+      if (hasNewline && pending.some(t => t.type !== 'punctuation')) flush();
+      continue;
+    }
+
+    const token: Token = { ...rest, sentenceId: -1 };
+    tokens.push(token);
+    pending.push(token);
+
+    if (token.type === 'punctuation' && TERMINAL_PUNCTUATION.test(token.text) && endsSentence(raw, i)) {
+      // Closing quotes and brackets directly after the punctuation belong to this sentence
+      while (i + 1 < raw.length && !raw[i + 1].isSpace && CLOSING_PUNCTUATION.test(raw[i + 1].text)) {
+        const { isSpace: _s, hasNewline: _n, ...closing } = raw[++i];
+        const closingToken: Token = { ...closing, sentenceId: -1 };
+        tokens.push(closingToken);
+        pending.push(closingToken);
+      }
+      flush();
+    }
+  }
+  flush();
+
+  return { text, tokens, sentences };
+};
+
+/**
+ * Tokenizes the plain-text projection of an HTML fragment (see `htmlToPlainText`).
+ */
+export const tokenizeHtml = (html: string): TokenizedText => tokenize(htmlToPlainText(html));
@@ -0,0 +1,224 @@
+import { TranslationProvider, WordAnalysis, WordExample, WordTranslation } from "../types";
+import { openDatabase, requestToPromise, transactionDone, STORES } from "./database";
+
+/**
+ * Bump when the shape or meaning of cached translations changes (e.g. a new prompt),
+ * so entries written by older versions are treated as misses and overwritten.
+ */
+const CACHE_VERSION = 3;
+
+/** Least recently used entries beyond this count are evicted after each write. */
+const MAX_ENTRIES = 20000;
+
+type CacheRecord = {
+  key: string;
+  word: string;
+  providerId: string;
+  model: string;
+  version: number;
+  translation: string;
+  senses: string[];
+  /** Undefined when only a batch translation is known; null when the analysis is unavailable. */
+  analysis?: WordAnalysis | null;
+  /** Written with the analysis, by single-word lookups. */
+  example?: WordExample;
+  createdAt: number;
+  lastAccessed: number;
+};
+
+/**
+ * A cached translation. Entries are keyed by word alone, without sentence context,
+ * so only words with a single sense (empty `senses`) should be written.
+ */
+export type CachedTranslation = {
+  translation: string;
+  senses?: string[];
+  analysis?: WordAnalysis | null;
+  example?: WordExample;
+};
+
+export type CacheStats = {
+  entryCount: number;
+  hits: number;
+  misses: number;
+};
+
+// Hit/miss counters cover the current session only.
+let hits = 0;
+let misses = 0;
+
+/**
+ * Normalizes a word for use in cache keys, matching the lowercased words in occurrence keys.
+ */
+export const normalizeCacheWord = (word: string): string => word.trim().normalize('NFC').toLowerCase();
+
+const makeKey = (provider: TranslationProvider, word: string): string =>
+  `${provider.id}/${provider.model || ''}/${normalizeCacheWord(word)}`;
+
+const isFresh = (record: CacheRecord | undefined): record is CacheRecord =>
+  Boolean(record && record.version === CACHE_VERSION);
+
+/**
+ * Looks up several words, trying each provider's entries in fallback order.
+ * Found entries have their access time refreshed so they survive eviction.
+ * @param words The words to look up.
+ * @param providers The providers whose cached results are acceptable, in order of preference.
+ * @returns A Map of normalized words to cached translations; words not cached are omitted.
+ */
+export const getCachedTranslations = async (
+  words: string[],
+  providers: TranslationProvider[]
+): Promise<Map<string, CachedTranslation>> => {
+  const found = new Map<string, CachedTranslation>();
+  const cacheableProviders = providers.filter(p => p.cacheable);
+  if (words.length === 0 || cacheableProviders.length === 0) return found;
+
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.translations, 'readwrite');
+    const store = transaction.objectStore(STORES.translations);
+    const now = Date.now();
+
+    await Promise.all(words.map(async (word) => {
+      const normalized = normalizeCacheWord(word);
+      for (const provider of cacheableProviders) {
+        const record = await requestToPromise<CacheRecord | undefined>(store.get(makeKey(provider, normalized)));
+        if (isFresh(record)) {
+          found.set(normalized, { translation: record.translation, senses: record.senses, analysis: record.analysis, example: record.example });
+          store.put({ ...record, lastAccessed: now });
+          return;
+        }
+      }
+    }));
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn("Translation cache lookup failed:", error);
+  }
+
+  hits += found.size;
+  misses += words.length - found.size;
+  return found;
+};
+
+/**
+ * Looks up a single word. See `getCachedTranslations`.
+ */
+export const getCachedWord = async (
+  word: string,
+  providers: TranslationProvider[]
+): Promise<CachedTranslation | null> => {
+  const found = await getCachedTranslations([word], providers);
+  return found.get(normalizeCacheWord(word)) || null;
+};
+
+/**
+ * Deletes the least recently accessed entries until the store is within MAX_ENTRIES.
+ */
+const evictOldEntries = async (db: IDBDatabase): Promise<void> => {
+  const transaction = db.transaction(STORES.translations, 'readwrite');
+  const store = transaction.objectStore(STORES.translations);
+  let excess = (await requestToPromise(store.count())) - MAX_ENTRIES;
+  if (excess > 0) {
+    const request = store.index('lastAccessed').openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && excess > 0) {
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      }
+    };
+  }
+  await transactionDone(transaction);
+};
+
+/**
+ * Stores translations produced by a provider. An existing analysis and example for a word
+ * are kept when only a new batch translation (without analysis) is written.
+ * @param entries Translations keyed by word; `analysis` is omitted for batch translations.
+ * @param provider The provider that produced the translations.
+ */
+export const putCachedTranslations = async (
+  entries: Map<string, CachedTranslation>,
+  provider: TranslationProvider
+): Promise<void> => {
+  if (!provider.cacheable || entries.size === 0) return;
+
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.translations, 'readwrite');
+    const store = transaction.objectStore(STORES.translations);
+    const now = Date.now();
+
+    entries.forEach(({ translation, senses, analysis, example }, word) => {
+      const key = makeKey(provider, word);
+      requestToPromise<CacheRecord | undefined>(store.get(key)).then(existing => {
+        const record: CacheRecord = {
+          key,
+          word: normalizeCacheWord(word),
+          providerId: provider.id,
+          model: provider.model || '',
+          version: CACHE_VERSION,
+          translation,
+          senses: senses || [],
+          analysis: analysis !== undefined ? analysis : (isFresh(existing) ? existing.analysis : undefined),
+          example: analysis !== undefined ? example : (isFresh(existing) ? existing.example : undefined),
+          createdAt: isFresh(existing) ? existing.createdAt : now,
+          lastAccessed: now,
+        };
+        store.put(record);
+      });
+    });
+    await transactionDone(transaction);
+    await evictOldEntries(db);
+  } catch (error) {
+    console.warn("Translation cache write failed:", error);
+  }
+};
+
+/**
+ * Stores a single-word lookup, including its analysis.
+ */
+export const putCachedWord = (
+  word: string,
+  result: WordTranslation,
+  provider: TranslationProvider
+): Promise<void> => putCachedTranslations(new Map([[word, result]]), provider);
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  let entryCount = 0;
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.translations, 'readonly');
+    entryCount = await requestToPromise(transaction.objectStore(STORES.translations).count());
+  } catch (error) {
+    console.warn("Could not read translation cache stats:", error);
+  }
+  return { entryCount, hits, misses };
+};
+
+/**
+ * Removes every cached translation and resets the session counters.
+ */
+export const clearCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.translations, 'readwrite');
+  transaction.objectStore(STORES.translations).clear();
+  await transactionDone(transaction);
+  hits = 0;
+  misses = 0;
+};
+
+/**
+ * Serializes all cached translations as JSON, for backup or sharing.
+ */
+export const exportCache = async (): Promise<string> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.translations, 'readonly');
+  const records = await requestToPromise<CacheRecord[]>(transaction.objectStore(STORES.translations).getAll());
+  return JSON.stringify({
+    version: CACHE_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: records.map(({ word, providerId, model, translation, senses, analysis, example }) => ({ word, providerId, model, translation, senses, analysis, example })),
+  }, null, 2);
+};
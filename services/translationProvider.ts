@@ -0,0 +1,246 @@
+import { CompoundPart, ContextualTranslation, GrammarExplanation, InflectionClass, InflectionTable, TranslationProvider, WordOccurrence, WordTranslation } from "../types";
+import { geminiProvider } from "./geminiService";
+import { dictionaryProvider } from "./dictionaryProvider";
+import { putCachedTranslations, putCachedWord, CachedTranslation } from "./translationCache";
+import { getOccurrenceKey } from "./wordOccurrences";
+import { createAbortError } from "./requestScheduler";
+
+const STORAGE_KEY = 'finnish-analyser.provider';
+
+const providers: TranslationProvider[] = [geminiProvider, dictionaryProvider];
+
+const loadActiveProviderId = (): string => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && providers.some(p => p.id === stored)) return stored;
+  } catch {
+    // Storage may be unavailable (e.g. privacy mode); fall through to the default.
+  }
+  return (providers.find(p => p.isAvailable()) || providers[0]).id;
+};
+
+let activeProviderId = loadActiveProviderId();
+
+/**
+ * Returns all registered providers, in fallback order.
+ */
+export const getProviders = (): TranslationProvider[] => providers;
+
+/**
+ * Registers an additional provider (e.g. a fake provider in development). Replaces any provider with the same id.
+ */
+export const registerProvider = (provider: TranslationProvider): void => {
+  const index = providers.findIndex(p => p.id === provider.id);
+  if (index >= 0) providers[index] = provider;
+  else providers.push(provider);
+};
+
+export const getActiveProvider = (): TranslationProvider =>
+  providers.find(p => p.id === activeProviderId) || providers[0];
+
+/**
+ * Selects the provider to try first and remembers the choice for future sessions.
+ */
+export const setActiveProvider = (id: string): void => {
+  if (!providers.some(p => p.id === id)) {
+    throw new Error(`Unknown translation provider: ${id}`);
+  }
+  activeProviderId = id;
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Not persisting the choice is harmless.
+  }
+};
+
+/**
+ * The active provider followed by the other available providers, in registration order.
+ */
+export const getFallbackChain = (): TranslationProvider[] => {
+  const active = getActiveProvider();
+  return [active, ...providers.filter(p => p !== active && p.isAvailable())];
+};
+
+/**
+ * Translates a single Finnish word, trying the active provider first and falling back
+ * to the other available providers if it fails or does not know the word.
+ * @param word The Finnish word to translate.
+ * @param context The sentence the word appears in, so the in-context sense comes first.
+ * @param signal Cancels the lookup; no further providers are tried once it aborts.
+ * @returns The translation and analysis from the first provider that succeeds.
+ * @throws An AbortError if cancelled.
+ */
+export const translateWord = async (word: string, context?: string, signal?: AbortSignal): Promise<WordTranslation> => {
+  let notFound: WordTranslation | null = null;
+  for (const provider of getFallbackChain()) {
+    try {
+      const result = await provider.translateWord(word, context, signal);
+      // A placeholder is not cached, so a later lookup can still find a real translation; the next provider may know the word.
+      if (result.notFound) {
+        notFound = notFound || result;
+        continue;
+      }
+      // Only unambiguous words can be reused outside the sentence they were translated in.
+      if (result.senses.length === 0) putCachedWord(word, result, provider);
+      return result;
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      console.warn(`Translation provider "${provider.name}" failed for "${word}":`, error);
+    }
+  }
+  return notFound || { translation: "Translation failed.", senses: [], analysis: null };
+};
+
+/**
+ * Translates a batch of word occurrences, each in the context of its sentence.
+ * Occurrences the active provider fails on or does not know are passed on to the next available provider.
+ * @param occurrences The word occurrences to translate.
+ * @param signal Cancels the batch; no further providers are tried once it aborts.
+ * @returns A Map of occurrence keys to in-context translations; may be partial.
+ * @throws An AbortError if cancelled.
+ */
+export const translateWordsBatch = async (occurrences: WordOccurrence[], signal?: AbortSignal): Promise<Map<string, ContextualTranslation>> => {
+  const translationMap = new Map<string, ContextualTranslation>();
+  let remaining = occurrences;
+
+  for (const provider of getFallbackChain()) {
+    if (remaining.length === 0) break;
+    try {
+      const result = await provider.translateWordsBatch(remaining, signal);
+      result.forEach((translation, key) => translationMap.set(key, translation));
+
+      const unambiguous = new Map<string, CachedTranslation>();
+      for (const { word, sentenceId } of remaining) {
+        const translation = result.get(getOccurrenceKey(sentenceId, word));
+        if (translation && translation.senses.length === 0) unambiguous.set(word, translation);
+      }
+      putCachedTranslations(unambiguous, provider);
+
+      remaining = remaining.filter(o => !translationMap.has(getOccurrenceKey(o.sentenceId, o.word)));
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      console.warn(`Translation provider "${provider.name}" failed for a batch of ${remaining.length} words:`, error);
+    }
+  }
+
+  return translationMap;
+};
+
+/**
+ * Translates a sentence or passage into idiomatic English, falling back through the available providers.
+ * @param text The Finnish text to translate.
+ * @param signal Cancels the translation.
+ * @returns The translation from the first provider that succeeds.
+ * @throws If no provider can translate the text, or an AbortError if cancelled.
+ */
+export const translateText = async (text: string, signal?: AbortSignal): Promise<string> => {
+  let lastError: unknown = null;
+  for (const provider of getFallbackChain()) {
+    try {
+      return await provider.translateText(text, signal);
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      lastError = error;
+      console.warn(`Translation provider "${provider.name}" failed to translate text:`, error);
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error("No translation provider could translate the text.");
+};
+
+/**
+ * Translates sentences one-to-one, falling back through the available providers.
+ * @param sentences The Finnish sentences to translate.
+ * @param signal Cancels the translation.
+ * @returns The translations, in the same order as `sentences`.
+ * @throws If no provider can translate the sentences, or an AbortError if cancelled.
+ */
+export const translateSentences = async (sentences: string[], signal?: AbortSignal): Promise<string[]> => {
+  let lastError: unknown = null;
+  for (const provider of getFallbackChain()) {
+    try {
+      return await provider.translateSentences(sentences, signal);
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      lastError = error;
+      console.warn(`Translation provider "${provider.name}" failed to translate sentences:`, error);
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error("No translation provider could translate the sentences.");
+};
+
+/**
+ * Explains the grammar of a sentence using the first provider in the fallback chain that can.
+ * @param sentence The Finnish sentence.
+ * @param signal Cancels the request.
+ * @returns The explanation from the first provider that succeeds.
+ * @throws If no available provider supports grammar explanations, or all of them fail, or an AbortError if cancelled.
+ */
+export const explainGrammar = async (sentence: string, signal?: AbortSignal): Promise<GrammarExplanation> => {
+  let lastError: unknown = null;
+  for (const provider of getFallbackChain()) {
+    if (!provider.explainGrammar) continue;
+    try {
+      return await provider.explainGrammar(sentence, signal);
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      lastError = error;
+      console.warn(`Translation provider "${provider.name}" failed to explain grammar:`, error);
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error("Grammar explanations need the Gemini provider with an API key.");
+};
+
+/** Compounds are at least two words of three or more letters, so shorter words are not looked up. */
+const MIN_COMPOUND_LENGTH = 6;
+
+/**
+ * Splits a compound word into its parts using the first provider in the fallback chain that can:
+ * Gemini, or the offline dictionary's lexicon.
+ * @param word The word, possibly inflected.
+ * @param context The sentence the word appears in.
+ * @param signal Cancels the request.
+ * @returns The parts, or null if the word is not a compound or no available provider can split words.
+ * @throws If every provider that can split words fails, or an AbortError if cancelled.
+ */
+export const splitCompound = async (word: string, context?: string, signal?: AbortSignal): Promise<CompoundPart[] | null> => {
+  if (word.length < MIN_COMPOUND_LENGTH) return null;
+  let lastError: unknown = null;
+  for (const provider of getFallbackChain()) {
+    if (!provider.splitCompound) continue;
+    try {
+      return await provider.splitCompound(word, context, signal);
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      lastError = error;
+      console.warn(`Translation provider "${provider.name}" failed to split a compound:`, error);
+    }
+  }
+  if (lastError) throw lastError;
+  return null;
+};
+
+/**
+ * Builds the full inflection table of a word using the first provider in the fallback chain
+ * that has one: Gemini, or the offline dictionary's rule-based generator for regular words.
+ * @param baseForm The nominative singular or first infinitive.
+ * @param inflectionClass Whether to decline or conjugate the word.
+ * @param signal Cancels the request.
+ * @returns The table, or null if no available provider can inflect the word.
+ * @throws If every provider that can inflect words fails, or an AbortError if cancelled.
+ */
+export const getInflectionTable = async (baseForm: string, inflectionClass: InflectionClass, signal?: AbortSignal): Promise<InflectionTable | null> => {
+  let lastError: unknown = null;
+  for (const provider of getFallbackChain()) {
+    if (!provider.inflect) continue;
+    try {
+      const table = await provider.inflect(baseForm, inflectionClass, signal);
+      if (table) return table;
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      lastError = error;
+      console.warn(`Translation provider "${provider.name}" failed to inflect a word:`, error);
+    }
+  }
+  if (lastError) throw lastError;
+  return null;
+};
@@ -1,19 +1,15 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { SynthesizedSpeech } from "../types";
-
-// Ensure the API key is available from environment variables
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Modality } from "@google/genai";
+import { SpeechSettings, SynthesizedSpeech } from "../types";
+import { generateContent } from "./geminiClient";
+import { isAbortError, RequestOptions } from "./requestScheduler";
+import { DEFAULT_SPEECH_SETTINGS, getSpeechCacheKey, getSynthesisRate } from "./speechSettings";
 
 // --- WAV Conversion Helpers ---
 
 /**
  * Decodes a base64 string into a Uint8Array.
  */
-const base64ToUint8Array = (base64: string): Uint8Array => {
+export const base64ToUint8Array = (base64: string): Uint8Array => {
     const binaryString = atob(base64);
     const len = binaryString.length;
     const bytes = new Uint8Array(len);
@@ -60,7 +56,7 @@ const parseAudioMimeType = (mimeType: string): { bitsPerSample: number; rate: nu
 /**
  * Creates a WAV file buffer from raw PCM data by prepending a WAV header.
  */
-const createWavFile = (pcmData: Uint8Array, sampleRate: number, bitsPerSample: number): Uint8Array => {
+export const createWavFile = (pcmData: Uint8Array, sampleRate: number, bitsPerSample: number): Uint8Array => {
     const numChannels = 1;
     const bytesPerSample = bitsPerSample / 8;
     const blockAlign = numChannels * bytesPerSample;
@@ -103,17 +99,76 @@ const createWavFile = (pcmData: Uint8Array, sampleRate: number, bitsPerSample: n
 };
 
 
+/**
+ * Extracts the PCM samples and format from a WAV file, walking the RIFF chunks
+ * so files with extra chunks (e.g. LIST) are read correctly.
+ */
+export const parseWavFile = (wav: Uint8Array): { pcmData: Uint8Array; sampleRate: number; bitsPerSample: number } => {
+    const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+    const readString = (offset: number, length: number) =>
+        String.fromCharCode(...Array.from(wav.subarray(offset, offset + length)));
+
+    if (wav.length < 12 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') {
+        throw new Error("Not a WAV file.");
+    }
+
+    let sampleRate = 0;
+    let bitsPerSample = 0;
+    let offset = 12;
+    while (offset + 8 <= wav.length) {
+        const chunkId = readString(offset, 4);
+        const chunkSize = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+        if (chunkId === 'fmt ') {
+            if (view.getUint16(body + 2, true) !== 1) throw new Error("Only mono WAV audio is supported.");
+            sampleRate = view.getUint32(body + 4, true);
+            bitsPerSample = view.getUint16(body + 14, true);
+        } else if (chunkId === 'data') {
+            if (!sampleRate) throw new Error("WAV data chunk precedes its format chunk.");
+            return { pcmData: wav.subarray(body, Math.min(body + chunkSize, wav.length)), sampleRate, bitsPerSample };
+        }
+        offset = body + chunkSize + (chunkSize % 2); // Chunks are padded to an even size
+    }
+    throw new Error("WAV file has no audio data.");
+};
+
+/**
+ * Prefixes the text with the speaking style and rate as a natural-language instruction,
+ * which the TTS model follows without reading it aloud.
+ */
+const buildSpeechPrompt = (text: string, settings: SpeechSettings): string => {
+  const instructions: string[] = [];
+  if (settings.style.trim()) instructions.push(settings.style.trim());
+
+  const rate = getSynthesisRate(settings);
+  if (rate < 1) instructions.push(`slowly, at about ${Math.round(rate * 100)}% of normal speed`);
+  else if (rate > 1) instructions.push(`quickly, at about ${Math.round(rate * 100)}% of normal speed`);
+
+  return instructions.length > 0 ? `Read aloud ${instructions.join(', ')}: ${text}` : text;
+};
+
+/**
+ * Synthesizes Finnish speech with the given voice, style and (for synthesized-rate mode) speed.
+ * Requests go through the shared Gemini scheduler; `options` can cancel or prioritise them.
+ */
 export const synthesizeSpeech = async (
-  text: string
+  text: string,
+  settings: SpeechSettings = DEFAULT_SPEECH_SETTINGS,
+  options: RequestOptions = {}
 ): Promise<SynthesizedSpeech> => {
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
         model: "gemini-2.5-flash-preview-tts",
-        contents: text,
+        contents: buildSpeechPrompt(text, settings),
         config: {
             responseModalities: [Modality.AUDIO],
+            speechConfig: {
+                voiceConfig: {
+                    prebuiltVoiceConfig: { voiceName: settings.voice },
+                },
+            },
         },
-    });
+    }, options);
 
     // Safely access response parts to prevent crashes on empty/invalid responses.
     for (const part of response.candidates?.[0]?.content?.parts || []) {
@@ -142,8 +197,51 @@ export const synthesizeSpeech = async (
     throw new Error("No audio content found in Gemini TTS response.");
 
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Error synthesizing speech with Gemini:", error);
     const message = error instanceof Error ? error.message : "An unknown error occurred";
     throw new Error(`Gemini TTS failed: ${message}`);
   }
-};
\ No newline at end of file
+};
+
+// Pronunciations of single words, keyed by voice and lowercased word.
+// Failed requests are removed so they can be retried.
+const wordSpeechCache = new Map<string, Promise<SynthesizedSpeech>>();
+
+/**
+ * Synthesizes a single word pronounced carefully in isolation, so vowel length and
+ * consonant gemination are audible (e.g. "tuli", "tuuli", "tulli").
+ * Results are cached per word and voice for the session, so repeated requests are instant.
+ * A request with a signal is only cached once it succeeds, so cancelling it never fails other callers.
+ */
+export const synthesizeWord = (
+  word: string,
+  settings: SpeechSettings = DEFAULT_SPEECH_SETTINGS,
+  options: RequestOptions = {}
+): Promise<SynthesizedSpeech> => {
+  const normalized = word.trim().toLowerCase();
+  // Only the voice applies; the prompt already asks for careful pronunciation
+  const wordSettings: SpeechSettings = { ...settings, style: '', rate: 1 };
+  const key = `${getSpeechCacheKey(wordSettings)}|${normalized}`;
+  const cached = wordSpeechCache.get(key);
+  if (cached) return cached;
+
+  // Asked for by the reader, so ahead of background preloads
+  const speech = synthesizeSpeech(`Say clearly, as a single Finnish word: ${normalized}`, wordSettings, { priority: 1, ...options });
+  if (options.signal) {
+    return speech.then(result => {
+      if (!wordSpeechCache.has(key)) wordSpeechCache.set(key, Promise.resolve(result));
+      return result;
+    });
+  }
+  speech.catch(() => wordSpeechCache.delete(key));
+  wordSpeechCache.set(key, speech);
+  return speech;
+};
+
+/**
+ * Creates an object URL for synthesized audio, for use as an <audio> source.
+ * The caller is responsible for revoking it.
+ */
+export const createSpeechUrl = (speech: SynthesizedSpeech): string =>
+  URL.createObjectURL(new Blob([base64ToUint8Array(speech.data)], { type: speech.mimeType }));
@@ -0,0 +1,105 @@
+import { ContextualTranslation, VocabularyEntry, WordAnalysis } from "../types";
+import { TokenizedText } from "./tokenizer";
+import { collectOccurrences, getOccurrenceKey } from "./wordOccurrences";
+import { formatDelimited, parseDelimited, detectDelimiter } from "./csvService";
+import { NewVocabularyEntry } from "./vocabularyService";
+
+/**
+ * A word prepared for export, with the sentence it was translated in.
+ */
+export type ExportRow = {
+  word: string;
+  baseForm: string;
+  translation: string;
+  sentence: string;
+  /** The sentence's ID in the analysed text, when exported from one (used for sentence audio). */
+  sentenceId?: number;
+  source: string;
+  tags: string[];
+};
+
+/**
+ * Column headers of the exchange format, shared by export and import.
+ */
+export const EXPORT_COLUMNS = ['word', 'base_form', 'translation', 'sentence', 'source', 'tags'] as const;
+
+/**
+ * Lists the translated words of an analysed text, one row per distinct word and translation
+ * (the first sentence it appears in with that translation is kept as its example).
+ */
+export const collectExportRows = (
+  tokenized: TokenizedText,
+  translations: Map<string, ContextualTranslation>,
+  analyses: Map<string, WordAnalysis | null>,
+  source: string
+): ExportRow[] => {
+  const rows: ExportRow[] = [];
+  const seen = new Set<string>();
+
+  for (const { word, sentenceId, sentence } of collectOccurrences(tokenized)) {
+    const key = getOccurrenceKey(sentenceId, word);
+    const translation = translations.get(key)?.translation;
+    if (!translation) continue;
+    const dedupKey = `${word}\n${translation.toLowerCase()}`;
+    if (seen.has(dedupKey)) continue;
+    seen.add(dedupKey);
+    rows.push({
+      word,
+      baseForm: analyses.get(key)?.baseForm || word,
+      translation,
+      sentence: sentence.replace(/\s+/g, ' '),
+      sentenceId,
+      source,
+      tags: [],
+    });
+  }
+  return rows;
+};
+
+export const vocabularyToExportRows = (entries: VocabularyEntry[]): ExportRow[] =>
+  entries.map(({ word, baseForm, translation, sentence, sourceTitle, tags }) =>
+    ({ word, baseForm, translation, sentence, source: sourceTitle, tags }));
+
+export const formatTags = (tags: string[]): string => tags.map(tag => tag.trim().replace(/\s+/g, '_')).join(' ');
+
+/**
+ * Serializes rows as CSV or TSV with a header line. Tags are space-separated, as in Anki,
+ * with spaces inside a tag replaced by underscores.
+ */
+export const formatExportRows = (rows: ExportRow[], delimiter: ',' | '\t'): string =>
+  formatDelimited([
+    [...EXPORT_COLUMNS],
+    ...rows.map(row => [row.word, row.baseForm, row.translation, row.sentence, row.source, formatTags(row.tags)]),
+  ], delimiter);
+
+/**
+ * Reads a CSV or TSV file in the exchange format into notebook entries.
+ * Columns are matched by header name, so they may be reordered; only `word` and `translation` are required.
+ * @throws If the header lacks a required column.
+ */
+export const parseVocabularyFile = (text: string): NewVocabularyEntry[] => {
+  const [header, ...records] = parseDelimited(text, detectDelimiter(text));
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const index = (name: typeof EXPORT_COLUMNS[number]) => columns.indexOf(name);
+  for (const required of ['word', 'translation'] as const) {
+    if (index(required) < 0) throw new Error(`Missing "${required}" column. Expected columns: ${EXPORT_COLUMNS.join(', ')}.`);
+  }
+
+  const field = (record: string[], name: typeof EXPORT_COLUMNS[number]) => {
+    const i = index(name);
+    return i >= 0 ? (record[i] || '').trim() : '';
+  };
+
+  return records
+    .filter(record => field(record, 'word') && field(record, 'translation'))
+    .map(record => ({
+      word: field(record, 'word'),
+      baseForm: field(record, 'base_form') || field(record, 'word'),
+      translation: field(record, 'translation'),
+      sentence: field(record, 'sentence'),
+      sourceTitle: field(record, 'source'),
+      tags: field(record, 'tags').split(/\s+/).filter(Boolean),
+    }));
+};
@@ -0,0 +1,102 @@
+import { VocabularyEntry } from "../types";
+import { openDatabase, requestToPromise, transactionDone, STORES } from "./database";
+import { candidateBaseForms } from "./dictionaryProvider";
+
+export type NewVocabularyEntry = Omit<VocabularyEntry, 'id' | 'tags' | 'notes' | 'createdAt' | 'updatedAt'> &
+  Partial<Pick<VocabularyEntry, 'tags' | 'notes'>>;
+
+/**
+ * Normalizes a tag list: trimmed, lowercased, without empties or duplicates.
+ */
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+/**
+ * Returns every notebook entry, newest first.
+ */
+export const getVocabulary = async (): Promise<VocabularyEntry[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.vocabulary, 'readonly');
+  const entries = await requestToPromise<VocabularyEntry[]>(transaction.objectStore(STORES.vocabulary).getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Saves a word to the notebook. Saving a base form and translation that are already
+ * in the notebook returns the existing entry instead of adding a duplicate.
+ */
+export const addVocabularyEntry = async (input: NewVocabularyEntry): Promise<VocabularyEntry> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.vocabulary, 'readwrite');
+  const store = transaction.objectStore(STORES.vocabulary);
+
+  const baseForm = input.baseForm.trim().toLowerCase();
+  const sameBaseForm = await requestToPromise<VocabularyEntry[]>(store.index('baseForm').getAll(baseForm));
+  const existing = sameBaseForm.find(entry => entry.translation.toLowerCase() === input.translation.trim().toLowerCase());
+  if (existing) {
+    await transactionDone(transaction);
+    return existing;
+  }
+
+  const now = Date.now();
+  const entry: VocabularyEntry = {
+    ...input,
+    id: crypto.randomUUID(),
+    word: input.word.trim().toLowerCase(),
+    baseForm,
+    translation: input.translation.trim(),
+    tags: normalizeTags(input.tags || []),
+    notes: input.notes || '',
+    createdAt: now,
+    updatedAt: now,
+  };
+  store.put(entry);
+  await transactionDone(transaction);
+  return entry;
+};
+
+/**
+ * Stores an edited entry, refreshing its modification time.
+ */
+export const updateVocabularyEntry = async (entry: VocabularyEntry): Promise<VocabularyEntry> => {
+  const updated: VocabularyEntry = {
+    ...entry,
+    baseForm: entry.baseForm.trim().toLowerCase(),
+    tags: normalizeTags(entry.tags),
+    updatedAt: Date.now(),
+  };
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.vocabulary, 'readwrite');
+  transaction.objectStore(STORES.vocabulary).put(updated);
+  await transactionDone(transaction);
+  return updated;
+};
+
+export const deleteVocabularyEntry = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.vocabulary, 'readwrite');
+  transaction.objectStore(STORES.vocabulary).delete(id);
+  await transactionDone(transaction);
+};
+
+/**
+ * Collects the saved words and base forms, lowercased, for recognizing them in other texts.
+ */
+export const getVocabularyForms = (entries: VocabularyEntry[]): Set<string> => {
+  const forms = new Set<string>();
+  for (const { word, baseForm } of entries) {
+    forms.add(word);
+    forms.add(baseForm);
+  }
+  return forms;
+};
+
+/**
+ * Checks whether a word of a text is in the notebook, either as saved or as an inflected
+ * form of a saved base form (using the dictionary's suffix-stripping heuristic).
+ */
+export const isSavedWord = (word: string, forms: Set<string>): boolean => {
+  if (forms.size === 0) return false;
+  const lower = word.toLowerCase();
+  return forms.has(lower) || candidateBaseForms(lower).some(candidate => forms.has(candidate.baseForm));
+};
@@ -0,0 +1,33 @@
+import { WordOccurrence } from "../types";
+import { TokenizedText } from "./tokenizer";
+
+/**
+ * Builds the key under which the translation of one word occurrence is stored.
+ * Occurrences are identified by sentence, so the same word gets a separate,
+ * sense-specific translation in every sentence it appears in.
+ * @param sentenceId The index of the sentence in the analysed text.
+ * @param word The word as it appears in the text; case is ignored.
+ */
+export const getOccurrenceKey = (sentenceId: number, word: string): string =>
+  `${sentenceId}:${word.toLowerCase()}`;
+
+/**
+ * Extracts the distinct words of every sentence, together with the sentence they appear in.
+ * @param tokenized The tokenized analysed text.
+ * @returns One occurrence per distinct (lowercased) word per sentence.
+ */
+export const collectOccurrences = (tokenized: TokenizedText): WordOccurrence[] => {
+  const seen = new Set<string>();
+  const occurrences: WordOccurrence[] = [];
+
+  for (const token of tokenized.tokens) {
+    if (token.type !== 'word' || token.sentenceId < 0) continue;
+    const word = token.text.toLowerCase();
+    const key = getOccurrenceKey(token.sentenceId, word);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    occurrences.push({ word, sentenceId: token.sentenceId, sentence: tokenized.sentences[token.sentenceId].text.trim() });
+  }
+
+  return occurrences;
+};
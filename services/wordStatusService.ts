@@ -0,0 +1,98 @@
+import { WordStatus } from "../types";
+import { openDatabase, requestToPromise, transactionDone, STORES } from "./database";
+import { candidateBaseForms } from "./dictionaryProvider";
+import { Token } from "./tokenizer";
+
+type WordStatusRecord = {
+  lemma: string;
+  status: WordStatus;
+  updatedAt: number;
+};
+
+export const WORD_STATUSES: WordStatus[] = ['new', 'learning', 'known', 'ignored'];
+
+export const WORD_STATUS_LABELS: Record<WordStatus, string> = {
+  new: 'New',
+  learning: 'Learning',
+  known: 'Known',
+  ignored: 'Ignored',
+};
+
+/**
+ * The status a modifier-click moves a word to: new → learning → known → new.
+ * Ignored words return to new.
+ */
+export const nextWordStatus = (status: WordStatus): WordStatus =>
+  status === 'new' ? 'learning' : status === 'learning' ? 'known' : 'new';
+
+export const normalizeLemma = (lemma: string): string => lemma.trim().normalize('NFC').toLowerCase();
+
+/**
+ * Loads the status of every lemma that is not new.
+ */
+export const getWordStatuses = async (): Promise<Map<string, WordStatus>> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.wordStatuses, 'readonly');
+  const records = await requestToPromise<WordStatusRecord[]>(transaction.objectStore(STORES.wordStatuses).getAll());
+  return new Map(records.map(({ lemma, status }) => [lemma, status]));
+};
+
+/**
+ * Persists a lemma's status. New is the default, so it is stored by deleting the record.
+ */
+export const setWordStatus = async (lemma: string, status: WordStatus): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.wordStatuses, 'readwrite');
+  const store = transaction.objectStore(STORES.wordStatuses);
+  const key = normalizeLemma(lemma);
+  if (status === 'new') store.delete(key);
+  else store.put({ lemma: key, status, updatedAt: Date.now() } satisfies WordStatusRecord);
+  await transactionDone(transaction);
+};
+
+/**
+ * Finds the stored lemma that gives a word in a text its status: its analysed base form
+ * when known, the word itself, or a candidate base form from the dictionary's
+ * suffix-stripping heuristic.
+ * @returns The matching lemma and its status, or null if the word is new.
+ */
+export const findWordStatus = (
+  word: string,
+  baseForm: string | undefined,
+  statuses: Map<string, WordStatus>
+): { lemma: string; status: WordStatus } | null => {
+  if (statuses.size === 0) return null;
+  const candidates = [
+    ...(baseForm ? [normalizeLemma(baseForm)] : []),
+    normalizeLemma(word),
+    ...candidateBaseForms(normalizeLemma(word)).map(candidate => candidate.baseForm),
+  ];
+  for (const lemma of candidates) {
+    const status = statuses.get(lemma);
+    if (status) return { lemma, status };
+  }
+  return null;
+};
+
+/**
+ * The reader's status of a word, or "new" if neither it nor its lemma has one.
+ */
+export const lookupWordStatus = (word: string, baseForm: string | undefined, statuses: Map<string, WordStatus>): WordStatus =>
+  findWordStatus(word, baseForm, statuses)?.status ?? 'new';
+
+/**
+ * The share of running words the reader knows, ignoring words marked as ignored.
+ * @returns A ratio between 0 and 1, or null for a text without countable words.
+ */
+export const computeKnownRatio = (tokens: Token[], getStatus: (token: Token) => WordStatus): number | null => {
+  let counted = 0;
+  let known = 0;
+  for (const token of tokens) {
+    if (token.type !== 'word') continue;
+    const status = getStatus(token);
+    if (status === 'ignored') continue;
+    counted++;
+    if (status === 'known') known++;
+  }
+  return counted > 0 ? known / counted : null;
+};
@@ -1,10 +1,356 @@
+/**
+ * The 15 grammatical cases of Finnish (the accusative is kept separate from
+ * the genitive/nominative it shares endings with, as grammars usually do).
+ */
+export type FinnishCase =
+  | 'nominative'
+  | 'genitive'
+  | 'accusative'
+  | 'partitive'
+  | 'inessive'
+  | 'elative'
+  | 'illative'
+  | 'adessive'
+  | 'ablative'
+  | 'allative'
+  | 'essive'
+  | 'translative'
+  | 'abessive'
+  | 'comitative'
+  | 'instructive';
+
+export type GrammaticalNumber = 'singular' | 'plural';
+
+/**
+ * A structured morphological breakdown of a single inflected Finnish word form.
+ * Fields that do not apply to the word's part of speech are left undefined.
+ */
+export type WordAnalysis = {
+  baseForm: string;
+  partOfSpeech: string;
+  case?: FinnishCase;
+  number?: GrammaticalNumber;
+  possessiveSuffix?: string;
+  clitics: string[];
+  person?: string;
+  tense?: string;
+  mood?: string;
+};
+
+/**
+ * A sentence showing how a word is used, with its translation.
+ */
+export type WordExample = {
+  finnish: string;
+  english: string;
+};
+
+/**
+ * A translation chosen for the sense a word has in its sentence, plus the word's
+ * other common senses, most common first. `senses` is empty when the word is unambiguous.
+ */
+export type ContextualTranslation = {
+  translation: string;
+  senses: string[];
+  /** An example of the word in the chosen sense; only single-word lookups provide one. */
+  example?: WordExample;
+};
+
+/**
+ * The result of looking up a single word: its translation plus, when available,
+ * the morphological analysis of the surface form that was clicked.
+ */
+export type WordTranslation = ContextualTranslation & {
+  analysis: WordAnalysis | null;
+  /** Set when the provider has no translation; `translation` is then a placeholder and is never cached. */
+  notFound?: boolean;
+};
+
+/**
+ * One part of a compound word, e.g. "kansan" (kansa, "people") in "kansanedustaja".
+ */
+export type CompoundPart = {
+  /** The part as written in the compound; earlier parts are often in the genitive. */
+  surface: string;
+  baseForm: string;
+  gloss: string;
+};
+
+/** Nominals (nouns, adjectives, numerals, pronouns) decline; verbs conjugate. */
+export type InflectionClass = 'noun' | 'verb';
+
+/**
+ * One table of inflected forms, e.g. the present indicative with affirmative and negative columns.
+ */
+export type InflectionSection = {
+  title: string;
+  columns: string[];
+  /** One cell per column. Alternative forms are separated by " / "; "—" marks a form that does not exist. */
+  rows: { label: string; cells: string[] }[];
+};
+
+/**
+ * All forms of a word: the 15 cases in singular and plural, or the conjugation of a verb.
+ */
+export type InflectionTable = {
+  baseForm: string;
+  inflectionClass: InflectionClass;
+  sections: InflectionSection[];
+};
+
+/**
+ * One occurrence of a word in the analysed text, identified by the sentence it appears in.
+ */
+export type WordOccurrence = {
+  word: string;
+  sentenceId: number;
+  sentence: string;
+};
+
+/**
+ * A backend that can translate Finnish words to English. Implementations should
+ * throw (rather than return placeholder text) when a lookup fails, so the
+ * provider registry can fall back to the next available provider. Methods take an optional
+ * AbortSignal; providers whose lookups are instant may ignore it.
+ */
+export interface TranslationProvider {
+  /** Stable identifier used for persistence and cache keys. */
+  id: string;
+  /** Human-readable name shown in the provider selector. */
+  name: string;
+  /** The model or data source version behind the provider, if any. */
+  model?: string;
+  /** Whether results should be kept in the persistent translation cache (false for local, instant lookups). */
+  cacheable: boolean;
+  /** Whether the provider can currently serve requests (e.g. has an API key or a loaded word list). */
+  isAvailable: () => boolean;
+  /**
+   * Translates a word, choosing the sense it has in `context` (its sentence) when given.
+   */
+  translateWord: (word: string, context?: string, signal?: AbortSignal) => Promise<WordTranslation>;
+  /**
+   * Translates several word occurrences at once, each in the context of its sentence.
+   * The returned Map is keyed by `getOccurrenceKey` and may omit words the provider does not know.
+   */
+  translateWordsBatch: (occurrences: WordOccurrence[], signal?: AbortSignal) => Promise<Map<string, ContextualTranslation>>;
+  /**
+   * Produces an idiomatic English translation of a sentence or passage.
+   */
+  translateText: (text: string, signal?: AbortSignal) => Promise<string>;
+  /**
+   * Translates each sentence separately, returning translations in the same order.
+   */
+  translateSentences: (sentences: string[], signal?: AbortSignal) => Promise<string[]>;
+  /**
+   * Explains how a sentence is built. Optional: only providers backed by a language model can.
+   */
+  explainGrammar?: (sentence: string, signal?: AbortSignal) => Promise<GrammarExplanation>;
+  /**
+   * Splits a compound word into its parts, or returns null if the word is not a compound.
+   * Optional: providers without a lexicon or model cannot.
+   */
+  splitCompound?: (word: string, context?: string, signal?: AbortSignal) => Promise<CompoundPart[] | null>;
+  /**
+   * Lists all forms of a word given in its dictionary form, or returns null if the provider cannot inflect it.
+   */
+  inflect?: (baseForm: string, inflectionClass: InflectionClass, signal?: AbortSignal) => Promise<InflectionTable | null>;
+}
+
+/**
+ * A structured explanation of a sentence's grammar, for learners.
+ */
+export type GrammarExplanation = {
+  translation: string;
+  /** Main and subordinate clauses, and how they are joined. */
+  clauses: { text: string; type: string; explanation: string }[];
+  /** Why subjects, objects and complements take the case they do (e.g. partitive vs. accusative). */
+  caseChoices: { phrase: string; grammaticalCase: string; reason: string }[];
+  /** Words that require a particular case or form of their complement, e.g. "pitää + elative". */
+  government: { pattern: string; example: string; explanation: string }[];
+  /** Notable constructions: passive, participle phrases, agent participle, infinitives and so on. */
+  constructions: { name: string; example: string; explanation: string }[];
+  /** Anything else worth knowing about the sentence; may be empty. */
+  notes: string;
+};
+
 export type TooltipData = {
   x: number;
   y: number;
+  /** The bottom edge of the word; the popover opens below the word when there is no room above. */
+  anchorBottom: number;
   text: string;
+  word?: string;
+  occurrenceKey?: string;
+  sentenceId?: number;
+  senses?: string[];
+  example?: WordExample;
+  /** The parts of a compound word; undefined while unknown, null if the word is not a compound. */
+  compound?: CompoundPart[] | null;
+  analysis?: WordAnalysis | null;
+  isAnalysisPending?: boolean;
 } | null;
 
 export type SynthesizedSpeech = {
   data: string;
   mimeType: string;
-};
\ No newline at end of file
+};
+
+/**
+ * How slowed-down (or sped-up) speech is produced: asked of the TTS model ("synthesized"),
+ * or by changing the playback rate of normal-speed audio ("stretched"), which distorts at low rates.
+ */
+export type RateMode = 'synthesized' | 'stretched';
+
+export type SpeechSettings = {
+  /** A Gemini prebuilt voice name. */
+  voice: string;
+  /** Free-form speaking style instruction, e.g. "slowly and clearly for a learner"; empty for none. */
+  style: string;
+  rate: number;
+  rateMode: RateMode;
+};
+
+/**
+ * A word saved to the vocabulary notebook, with the context it was met in.
+ */
+export type VocabularyEntry = {
+  id: string;
+  /** The word as it appeared in the text, lowercased. */
+  word: string;
+  baseForm: string;
+  translation: string;
+  sentence: string;
+  sourceTitle: string;
+  tags: string[];
+  notes: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ReviewCardType = 'fi-en' | 'en-fi' | 'listening' | 'cloze';
+
+/** Again, hard, good, easy. */
+export type ReviewGrade = 0 | 1 | 2 | 3;
+
+/**
+ * The spaced-repetition state of one card type of a notebook entry.
+ */
+export type ReviewCard = {
+  /** `${entryId}:${type}` */
+  id: string;
+  entryId: string;
+  type: ReviewCardType;
+  /** When the card is next due, in epoch milliseconds. */
+  due: number;
+  /** Days until the next review after a successful recall. */
+  interval: number;
+  easeFactor: number;
+  repetitions: number;
+  lapses: number;
+  lastReviewed: number | null;
+};
+
+export type ExerciseType = 'cloze' | 'case' | 'reorder' | 'dictation';
+
+/**
+ * A sentence of the analysed text with one word left out.
+ */
+export type ClozeExercise = {
+  id: string;
+  type: 'cloze';
+  sentenceId: number;
+  /** The sentence up to the gap. */
+  before: string;
+  /** The sentence after the gap. */
+  after: string;
+  answer: string;
+  /** The word's translation in this sentence, if it was looked up. */
+  hint?: string;
+};
+
+/**
+ * A gapped sentence whose missing noun is chosen from several of its case forms.
+ */
+export type CaseExercise = {
+  id: string;
+  type: 'case';
+  sentenceId: number;
+  before: string;
+  after: string;
+  answer: string;
+  baseForm: string;
+  grammaticalCase: FinnishCase;
+  number: GrammaticalNumber;
+  /** The answer and the distractors, shuffled. */
+  options: string[];
+};
+
+/**
+ * A sentence whose words are to be put back in order.
+ */
+export type ReorderExercise = {
+  id: string;
+  type: 'reorder';
+  sentenceId: number;
+  /** The words in their original order, punctuation attached. */
+  words: string[];
+  shuffled: string[];
+  translation?: string;
+};
+
+/**
+ * A sentence to be typed after listening to it.
+ */
+export type DictationExercise = {
+  id: string;
+  type: 'dictation';
+  sentenceId: number;
+  sentence: string;
+};
+
+export type Exercise = ClozeExercise | CaseExercise | ReorderExercise | DictationExercise;
+
+export type ExerciseResult = {
+  exerciseId: string;
+  type: ExerciseType;
+  correct: boolean;
+  /** From 0 to 1; partial credit is only given for dictation. */
+  score: number;
+};
+
+/**
+ * How well the reader knows a lemma. Words are "new" until marked otherwise;
+ * "ignored" is for names and other words that should not count as vocabulary.
+ */
+export type WordStatus = 'new' | 'learning' | 'known' | 'ignored';
+
+/**
+ * A text saved to the library, together with the translations fetched for it and
+ * how far it was read aloud, so it can be reopened without translating it again.
+ */
+export type LibraryDocument = {
+  id: string;
+  title: string;
+  /** Where the text came from, e.g. "Pasted text", a file name or a URL. */
+  source: string;
+  /** The sanitized HTML of the text. */
+  html: string;
+  /** The plain text, for searching and previews. */
+  text: string;
+  sentenceCount: number;
+  /** Keyed by occurrence (see getOccurrenceKey). */
+  translations: Map<string, ContextualTranslation>;
+  analyses: Map<string, WordAnalysis | null>;
+  sentenceTranslations: Map<number, string>;
+  /** The sentence last read aloud, or null if the text was never played. */
+  lastSentenceIndex: number | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/**
+ * A library document without its HTML and translations, for listing.
+ */
+export type LibraryDocumentSummary = Omit<LibraryDocument, 'html' | 'translations' | 'analyses' | 'sentenceTranslations'> & {
+  translatedCount: number;
+};